@@ -13,6 +13,8 @@ const config: Config.InitialOptions = {
   },
   moduleNameMapper: {
     "^(\\.{1,2}/.*)\\.js$": "$1",
+    // import.meta is not available in the commonjs test build
+    "^.*/artifacts/baseURL$": "<rootDir>/tests/__mocks__/baseURL.ts",
     // "^wagmi$": "<rootDir>/tests/__mocks__/wagmi.ts",
   },
   extensionsToTreatAsEsm: [".ts"],
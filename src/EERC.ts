@@ -1,33 +1,107 @@
 import { poseidon3, poseidon5 } from "poseidon-lite";
 import * as snarkjs from "snarkjs";
 import {
+  type Abi,
+  type AbiEvent,
+  type AbiFunction,
   type Account,
   type Log,
   type PublicClient,
+  type ReplacementReturnType,
+  type Transaction,
   type WalletClient,
   decodeFunctionData,
+  domainSeparator,
   erc20Abi,
   isAddress,
+  maxUint256,
+  parseEventLogs,
+  parseSignature,
 } from "viem";
+import { ArtifactManager, type ArtifactProgress } from "./artifacts";
+import { ARTIFACTS_BASE_URL } from "./artifacts/baseURL";
 import { BabyJub } from "./crypto/babyjub";
+import { type BabyStepTable, ceilSqrt } from "./crypto/bsgs";
 import { FF } from "./crypto/ff";
 import { formatKeyForCurve, getPrivateKeyFromSignature } from "./crypto/key";
 import { Poseidon } from "./crypto/poseidon";
-import type { AmountPCT, EGCT, Point } from "./crypto/types";
-import { logMessage } from "./helpers";
+import type { AmountPCT, EGCT, ElGamalCipherText, Point } from "./crypto/types";
+import {
+  DEFAULT_LOG_SCANNER_OPTIONS,
+  EERCError,
+  type EERCErrorCode,
+  type EERCOperation,
+  EERCProofError,
+  EERCTransactionError,
+  EERCValidationError,
+  EventEmitter,
+  type Keystore,
+  type KeystoreOptions,
+  type LogFilter,
+  LogScanner,
+  type LogScannerOptions,
+  OperationQueue,
+  type QueuedOperation,
+  convertAmount,
+  decryptKeystore,
+  encryptKeystore,
+  logMessage,
+  parseKeystore,
+  splitDepositAmount,
+  toEERCError,
+} from "./helpers";
 import { decryptMetadata, encryptMetadata } from "./helpers/metadata";
 import type {
+  ApproveAndDepositOptions,
+  ApproveAndDepositResult,
+  AuditorDecryptPage,
+  BatchTransferItemResult,
+  BatchTransferRecipient,
+  BatchTransferResult,
   CircuitURLs,
+  DecryptedBalance,
   DecryptedEvent,
   DecryptedMetadata,
   DecryptedTransaction,
+  DepositOptions,
+  DepositResult,
+  EERCEvents,
+  EERCOptions,
+  HistoryEntry,
+  HistoryOptions,
+  HistoryPage,
+  InconsistentPCT,
+  KeyDerivationMatch,
+  KeyDerivationMode,
+  KeyStatus,
+  OperationEvent,
+  OperationProgress,
+  OperationReceipt,
   OperationResult,
+  OperationStage,
+  PendingOperation,
+  PortfolioToken,
+  RegisterOptions,
+  SendMessageOptions,
+  WaitForOperationOptions,
   eERC_Proof,
 } from "./hooks/types";
+import {
+  type CircuitInput,
+  type ProofOperation,
+  type ProveResult,
+  type Prover,
+  SnarkjsProver,
+  readPublicSignal,
+  verifyProof,
+} from "./prover";
 import {
   BURN_USER,
+  DEPOSIT_EVENT,
   DEPOSIT_WITH_MESSAGE_ABI,
   ENCRYPTED_ERC_ABI,
+  ERC20_PERMIT_ABI,
+  MAX_DISCRETE_LOG_VALUE,
   MESSAGES,
   PRIVATE_BURN_ABI,
   PRIVATE_BURN_EVENT,
@@ -38,10 +112,46 @@ import {
   REGISTRAR_ABI,
   SNARK_FIELD_SIZE,
   TRANSFER_WITH_MESSAGE_ABI,
+  TYPED_MESSAGES,
+  WITHDRAW_EVENT,
   WITHDRAW_WITH_MESSAGE_ABI,
 } from "./utils";
 
-export class EERC {
+const OPERATION_EVENTS_ABI = [
+  PRIVATE_TRANSFER_EVENT,
+  PRIVATE_MINT_EVENT,
+  PRIVATE_BURN_EVENT,
+  DEPOSIT_EVENT,
+  WITHDRAW_EVENT,
+  PRIVATE_MESSAGE_EVENT,
+] as Abi;
+
+type HistoryLog = Log & {
+  eventName: HistoryEntry["eventType"];
+  args: {
+    from?: `0x${string}`;
+    to?: `0x${string}`;
+    user?: `0x${string}`;
+    amount?: bigint;
+    dust?: bigint;
+    tokenId?: bigint;
+    metadata?: {
+      messageFrom: `0x${string}`;
+      messageTo: `0x${string}`;
+      messageType: string;
+      encryptedMsg: string;
+    };
+  };
+};
+
+type ProgressDetails = Pick<OperationProgress, "proofTime" | "transactionHash">;
+
+type ProgressReporter = (
+  stage: OperationStage,
+  details?: ProgressDetails,
+) => void;
+
+export class EERC extends EventEmitter<EERCEvents> {
   private client: PublicClient;
   public wallet: WalletClient;
 
@@ -59,7 +169,22 @@ export class EERC {
   private decryptionKey: string;
   public publicKey: bigint[] = [];
 
-  private circuitURLs: CircuitURLs;
+  private artifacts: ArtifactManager;
+  private prover: Prover;
+  private logScanner: LogScanner;
+  private logScannerOptions: LogScannerOptions;
+
+  private operationCount = 0;
+  // serializes the balance consuming operations per account and token
+  private queue = new OperationQueue();
+  private proofRetries: number;
+  // result of the last verifyKey call, reset when the key changes
+  public keyStatus?: KeyStatus;
+  private keyDerivation: KeyDerivationMode;
+  private confirmations: number;
+
+  private bsgsMaxValue: bigint;
+  private babyStepTable?: BabyStepTable;
 
   constructor(
     client: PublicClient,
@@ -69,18 +194,36 @@ export class EERC {
     isConverter: boolean,
     circuitURLs: CircuitURLs,
     decryptionKey?: string,
+    options: EERCOptions = {},
   ) {
+    super();
     this.client = client;
     this.wallet = wallet;
     this.contractAddress = contractAddress;
     this.registrarAddress = registrarAddress;
     this.isConverter = isConverter;
-    this.circuitURLs = circuitURLs;
+    this.artifacts = new ArtifactManager(circuitURLs, {
+      baseURL: ARTIFACTS_BASE_URL,
+      ...options.artifacts,
+    });
 
     this.field = new FF(SNARK_FIELD_SIZE);
     this.curve = new BabyJub(this.field);
     this.poseidon = new Poseidon(this.field, this.curve);
     this.decryptionKey = decryptionKey || "";
+    this.prover = options.prover ?? new SnarkjsProver();
+    this.logScannerOptions = options.logScanner ?? {};
+    this.logScanner = new LogScanner(
+      client,
+      contractAddress,
+      options.logScanner,
+    );
+    this.bsgsMaxValue = options.bsgs?.maxValue ?? MAX_DISCRETE_LOG_VALUE;
+    this.babyStepTable = options.bsgs?.table;
+    this.confirmations = options.confirmations ?? 0;
+    this.proofRetries = options.proofRetries ?? 1;
+    this.queue.on("change", (operations) => this.emit("queue", operations));
+    this.keyDerivation = options.keyDerivation ?? "personalSign";
 
     if (this.decryptionKey) {
       const formatted = formatKeyForCurve(this.decryptionKey);
@@ -88,12 +231,20 @@ export class EERC {
     }
   }
 
+  /**
+   * balance consuming operations that are queued, running or waiting to be mined
+   */
+  get queuedOperations(): QueuedOperation[] {
+    return this.queue.snapshot;
+  }
+
   /**
    * throws an error with EERCError class
+   * @param code error code
    * @param message error message
    */
-  private throwError(message: string) {
-    throw new Error(message);
+  private throwError(code: EERCErrorCode, message: string): never {
+    throw new EERCError(code, message);
   }
 
   /**
@@ -101,7 +252,80 @@ export class EERC {
    * @param address address to validate
    */
   private validateAddress(address: string) {
-    if (!isAddress(address)) throw new Error("Invalid address!");
+    if (!isAddress(address))
+      throw new EERCValidationError("INVALID_ADDRESS", "Invalid address!");
+  }
+
+  /**
+   * sets the decryption key, the key status is verified again on the next operation
+   * @param key decryption key
+   * @param publicKey public key of the decryption key, derived if not given
+   */
+  private setDecryptionKey(key: string, publicKey?: bigint[]) {
+    this.decryptionKey = key;
+    this.publicKey =
+      publicKey ?? this.curve.generatePublicKey(formatKeyForCurve(key));
+    this.keyStatus = undefined;
+  }
+
+  /**
+   * function to compare the decryption key with the public key registered for the wallet
+   * @returns key status
+   */
+  public async verifyKey(): Promise<KeyStatus> {
+    if (!this.decryptionKey) {
+      this.keyStatus = "missing";
+      return this.keyStatus;
+    }
+
+    const address = this.wallet?.account?.address;
+    if (!address) {
+      throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+    }
+
+    const registered = await this.fetchPublicKey(address);
+    if (registered[0] === 0n && registered[1] === 0n) {
+      this.keyStatus = "unregistered";
+    } else {
+      this.keyStatus =
+        registered[0] === this.publicKey[0] &&
+        registered[1] === this.publicKey[1]
+          ? "matches"
+          : "mismatch";
+    }
+
+    return this.keyStatus;
+  }
+
+  /**
+   * refuses to run private operations with a key that does not belong to the wallet
+   */
+  private async assertKeyMatches() {
+    const status =
+      this.keyStatus === "matches" ? this.keyStatus : await this.verifyKey();
+
+    if (status === "missing")
+      throw new EERCValidationError(
+        "MISSING_DECRYPTION_KEY",
+        "Decryption key is not set!",
+      );
+    if (status === "mismatch")
+      throw new EERCValidationError(
+        "KEY_MISMATCH",
+        "Decryption key does not match the registered public key!",
+      );
+  }
+
+  /**
+   * checks that provided private key is a hex string
+   * @param key private key, with or without 0x prefix
+   * @returns private key without the prefix
+   */
+  private validatePrivateKey(key: string): string {
+    const hex = key.replace(/^0x/, "");
+    if (!/^[0-9a-fA-F]+$/.test(hex))
+      throw new EERCValidationError("INVALID_KEY", "Invalid private key!");
+    return hex;
   }
 
   /**
@@ -110,9 +334,13 @@ export class EERC {
    * @param senderBalance sender balance - optional
    */
   private validateAmount(amount: bigint, senderBalance?: bigint) {
-    if (amount <= 0n) throw new Error("Invalid amount!");
+    if (amount <= 0n)
+      throw new EERCValidationError("INVALID_AMOUNT", "Invalid amount!");
     if (senderBalance && amount > senderBalance)
-      throw new Error("Insufficient balance!");
+      throw new EERCValidationError(
+        "INSUFFICIENT_BALANCE",
+        "Insufficient balance!",
+      );
   }
 
   /**
@@ -132,7 +360,7 @@ export class EERC {
 
       return await this.wallet.writeContract(request);
     } catch (e) {
-      throw new Error("Failed to set auditor public key!", { cause: e });
+      throw toEERCError(e, "setAuditor");
     }
   }
 
@@ -146,39 +374,220 @@ export class EERC {
   /**
    * function to generate the decryption key
    */
-  public async generateDecryptionKey() {
+  public async generateDecryptionKey(
+    mode: KeyDerivationMode = this.keyDerivation,
+  ) {
     if (!this.wallet || !this.client || !this.wallet.account?.address) {
-      this.throwError("Missing wallet or client!");
+      this.throwError("MISSING_WALLET", "Missing wallet or client!");
     }
 
     try {
-      const message = MESSAGES.REGISTER(
-        this.wallet.account?.address as `0x${string}`,
+      const key = await this.deriveDecryptionKey(mode);
+      this.setDecryptionKey(key);
+
+      // a different wallet or derivation mode gives a key that does not match the registered one
+      try {
+        await this.verifyKey();
+      } catch (e) {
+        logMessage(`Failed to verify the decryption key: ${e}`);
+      }
+
+      return key;
+    } catch (error) {
+      console.error("Failed to generate decryption key", error);
+      const eercError = toEERCError(error, "generateDecryptionKey");
+      if (eercError.code !== "UNKNOWN") throw eercError;
+      throw new EERCError(
+        "KEY_DERIVATION_FAILED",
+        "Failed to generate decryption key!",
+        { operation: "generateDecryptionKey", cause: error },
       );
+    }
+  }
 
-      // deriving the decryption key from the user signature
-      const signature = await this.wallet.signMessage({
-        message,
-        account: this.wallet.account as Account,
-      });
-      const key = getPrivateKeyFromSignature(signature);
+  /**
+   * function to find the derivation mode the user registered with, e.g. before switching to eip-712
+   * signs both messages and compares the derived public keys with the registered one
+   * @returns matching mode, the decryption key is set if one of them matches
+   */
+  public async detectKeyDerivation(): Promise<KeyDerivationMatch> {
+    try {
+      if (!this.wallet?.account?.address)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+
+      const registered = await this.fetchPublicKey(this.wallet.account.address);
+      const match: KeyDerivationMatch = { personalSign: false, eip712: false };
+      if (registered[0] === 0n && registered[1] === 0n) return match;
+
+      for (const mode of ["personalSign", "eip712"] as const) {
+        const key = await this.deriveDecryptionKey(mode);
+        const publicKey = this.curve.generatePublicKey(formatKeyForCurve(key));
+        if (publicKey[0] !== registered[0] || publicKey[1] !== registered[1])
+          continue;
+
+        match[mode] = true;
+        if (!match.mode) {
+          match.mode = mode;
+          match.key = key;
+          this.setDecryptionKey(key, publicKey);
+        }
+      }
 
-      this.decryptionKey = key;
+      return match;
+    } catch (e) {
+      throw toEERCError(e, "detectKeyDerivation");
+    }
+  }
 
-      const formatted = formatKeyForCurve(this.decryptionKey);
-      this.publicKey = this.curve.generatePublicKey(formatted);
+  /**
+   * derives the decryption key from the user signature
+   * @param mode personal_sign of MESSAGES.REGISTER or eip-712 signature of TYPED_MESSAGES.REGISTER
+   * @returns decryption key
+   */
+  private async deriveDecryptionKey(mode: KeyDerivationMode): Promise<string> {
+    const account = this.wallet.account as Account;
+
+    const signature =
+      mode === "eip712"
+        ? await this.wallet.signTypedData({
+            ...TYPED_MESSAGES.REGISTER(
+              account.address,
+              await this.client.getChainId(),
+              this.registrarAddress,
+            ),
+            account,
+          })
+        : await this.wallet.signMessage({
+            message: MESSAGES.REGISTER(account.address),
+            account,
+          });
+
+    return getPrivateKeyFromSignature(signature);
+  }
+
+  /**
+   * creates the sdk with the decryption key stored in the keystore
+   * @param keystore keystore object or its json
+   * @param password keystore password, the wallet signs the keystore message if not given
+   * @returns unlocked EERC instance
+   */
+  static async fromKeystore(
+    client: PublicClient,
+    wallet: WalletClient,
+    contractAddress: `0x${string}`,
+    registrarAddress: `0x${string}`,
+    isConverter: boolean,
+    circuitURLs: CircuitURLs,
+    keystore: Keystore | string,
+    password?: string,
+    options: EERCOptions = {},
+  ): Promise<EERC> {
+    const eerc = new EERC(
+      client,
+      wallet,
+      contractAddress,
+      registrarAddress,
+      isConverter,
+      circuitURLs,
+      undefined,
+      options,
+    );
+    await eerc.unlockKeystore(keystore, password);
+    return eerc;
+  }
+
+  /**
+   * function to encrypt the decryption key into a keystore that can be stored
+   * @param password keystore password, the wallet signs the keystore message if not given
+   * @param options kdf options
+   * @returns keystore
+   */
+  public async exportKeystore(
+    password?: string,
+    options?: KeystoreOptions,
+  ): Promise<Keystore> {
+    try {
+      if (!this.decryptionKey)
+        throw new EERCValidationError(
+          "MISSING_DECRYPTION_KEY",
+          "Decryption key is not set!",
+        );
+
+      const secret = password ?? (await this.signKeystoreMessage());
+      return await encryptKeystore(
+        this.decryptionKey,
+        this.publicKey,
+        secret,
+        options,
+        this.wallet.account?.address,
+      );
+    } catch (e) {
+      throw toEERCError(e, "exportKeystore");
+    }
+  }
+
+  /**
+   * function to set the decryption key from a keystore
+   * @param keystore keystore object or its json
+   * @param password keystore password, the wallet signs the keystore message if not given
+   * @returns decryption key
+   */
+  public async unlockKeystore(
+    keystore: Keystore | string,
+    password?: string,
+  ): Promise<string> {
+    try {
+      const parsed = parseKeystore(keystore);
+      const account = this.wallet.account?.address;
+      if (
+        parsed.address &&
+        account &&
+        parsed.address.toLowerCase() !== account.toLowerCase()
+      )
+        throw new EERCValidationError(
+          "INVALID_KEYSTORE",
+          "Keystore belongs to another account!",
+        );
+
+      const secret = password ?? (await this.signKeystoreMessage());
+      const key = await decryptKeystore(parsed, secret);
+
+      const publicKey = this.curve.generatePublicKey(formatKeyForCurve(key));
+      if (
+        publicKey[0] !== BigInt(parsed.publicKey[0]) ||
+        publicKey[1] !== BigInt(parsed.publicKey[1])
+      )
+        throw new EERCValidationError(
+          "INVALID_KEYSTORE",
+          "Keystore public key does not match the decryption key!",
+        );
+
+      this.setDecryptionKey(key, publicKey);
 
       return key;
-    } catch (error) {
-      console.error("Failed to generate decryption key", error);
-      throw new Error("Failed to generate decryption key!");
+    } catch (e) {
+      throw toEERCError(e, "unlockKeystore");
     }
   }
 
+  private async signKeystoreMessage(): Promise<string> {
+    if (!this.wallet?.account?.address)
+      throw new EERCValidationError(
+        "MISSING_WALLET",
+        "Password or wallet is required to use the keystore!",
+      );
+
+    return this.wallet.signMessage({
+      message: MESSAGES.KEYSTORE(this.wallet.account.address),
+      account: this.wallet.account as Account,
+    });
+  }
+
   /**
    * function to register a new user to the contract
+   * @param options key to register, the key of the sdk or a newly derived one is used if not given
    */
-  async register(): Promise<{
+  async register(options: RegisterOptions = {}): Promise<{
     key: string;
     transactionHash: string;
   }> {
@@ -188,25 +597,51 @@ export class EERC {
       !this.contractAddress ||
       !this.wallet.account?.address
     )
-      throw new Error("Missing client, wallet or contract address!");
+      throw new EERCValidationError(
+        "MISSING_WALLET",
+        "Missing client, wallet or contract address!",
+        { operation: "register" },
+      );
 
+    const progress = this.trackOperation("register");
     try {
       logMessage("Registering user to the contract");
 
-      // message to sign
-      const key = await this.generateDecryptionKey();
+      progress("fetchingKeys");
+      const key =
+        options.privateKey !== undefined
+          ? this.validatePrivateKey(options.privateKey)
+          : this.decryptionKey || (await this.generateDecryptionKey());
       const formatted = formatKeyForCurve(key);
       const publicKey = this.curve.generatePublicKey(formatted);
 
+      if (
+        options.publicKey &&
+        (options.publicKey[0] !== publicKey[0] ||
+          options.publicKey[1] !== publicKey[1])
+      )
+        throw new EERCValidationError(
+          "KEY_MISMATCH",
+          "Public key does not match the private key!",
+        );
+
       {
         const contractPublicKey = await this.fetchPublicKey(
           this.wallet.account.address,
         );
 
-        // if user already registered return the key
+        // if user already registered with the same key return the key
         if (contractPublicKey[0] !== 0n && contractPublicKey[1] !== 0n) {
-          this.decryptionKey = key as string;
-          this.publicKey = publicKey;
+          if (
+            contractPublicKey[0] !== publicKey[0] ||
+            contractPublicKey[1] !== publicKey[1]
+          )
+            throw new EERCValidationError(
+              "KEY_MISMATCH",
+              "User is already registered with a different key!",
+            );
+
+          this.setDecryptionKey(key, publicKey);
           return {
             key,
             transactionHash: "",
@@ -229,10 +664,11 @@ export class EERC {
         RegistrationHash: registrationHash,
       };
 
-      const proof = await this.generateProof(input, "REGISTER");
+      const proof = await this.generateProof(input, "REGISTER", progress);
 
       logMessage("Sending transaction");
 
+      progress("simulating");
       const { request } = await this.client.simulateContract({
         abi: this.registrarAbi,
         address: this.registrarAddress,
@@ -241,15 +677,17 @@ export class EERC {
         account: this.wallet.account,
       });
 
+      progress("signing");
       const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
 
-      this.decryptionKey = key;
-      this.publicKey = publicKey;
+      this.setDecryptionKey(key, publicKey);
 
       // returns proof for the transaction
       return { key, transactionHash };
     } catch (e) {
-      throw new Error(e as string);
+      progress("failed");
+      throw toEERCError(e, "register");
     }
   }
 
@@ -266,83 +704,104 @@ export class EERC {
     auditorPublicKey: Point,
     message?: string,
   ): Promise<OperationResult> {
-    if (this.isConverter) throw new Error("Not allowed for converter!");
-    this.validateAddress(recipient);
-    this.validateAmount(mintAmount);
-    logMessage("Minting encrypted tokens");
-
-    // fetch the receiver public key
-    const receiverPublicKey = await this.fetchPublicKey(recipient);
-
-    // encrypt the message if provided
-    const encryptedMessage = message
-      ? await encryptMetadata(this.poseidon, receiverPublicKey, message)
-      : "";
-
-    // 1. encrypt the total mint amount
-    const { cipher: encryptedAmount, random: encryptedAmountRandom } =
-      await this.curve.encryptMessage(receiverPublicKey, mintAmount);
-
-    // 2. create pct for the receiver with the mint amount
-    const {
-      cipher: receiverCiphertext,
-      nonce: receiverPoseidonNonce,
-      authKey: receiverAuthKey,
-      encryptionRandom: receiverEncryptionRandom,
-    } = await this.poseidon.processPoseidonEncryption({
-      inputs: [mintAmount],
-      publicKey: receiverPublicKey as Point,
-    });
+    const progress = this.trackOperation("mint");
+    try {
+      if (this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for converter!",
+        );
+      this.validateAddress(recipient);
+      this.validateAmount(mintAmount);
+      logMessage("Minting encrypted tokens");
 
-    // 3. create pct for the auditor with the mint amount
-    const {
-      cipher: auditorCiphertext,
-      nonce: auditorPoseidonNonce,
-      authKey: auditorAuthKey,
-      encryptionRandom: auditorEncryptionRandom,
-    } = await this.poseidon.processPoseidonEncryption({
-      inputs: [mintAmount],
-      publicKey: auditorPublicKey as Point,
-    });
+      // fetch the receiver public key
+      progress("fetchingKeys");
+      const receiverPublicKey = await this.fetchPublicKey(recipient);
 
-    // 4. creates nullifier for auditor ciphertext
-    const chainId = await this.client.getChainId();
-    const nullifier = poseidon5([chainId, ...auditorCiphertext].map(String));
-
-    const input = {
-      ValueToMint: mintAmount,
-      ChainID: chainId,
-      NullifierHash: nullifier,
-      ReceiverPublicKey: receiverPublicKey,
-      ReceiverVTTC1: encryptedAmount.c1,
-      ReceiverVTTC2: encryptedAmount.c2,
-      ReceiverVTTRandom: encryptedAmountRandom,
-      ReceiverPCT: receiverCiphertext,
-      ReceiverPCTAuthKey: receiverAuthKey,
-      ReceiverPCTNonce: receiverPoseidonNonce,
-      ReceiverPCTRandom: receiverEncryptionRandom,
-      AuditorPublicKey: auditorPublicKey,
-      AuditorPCT: auditorCiphertext,
-      AuditorPCTAuthKey: auditorAuthKey,
-      AuditorPCTNonce: auditorPoseidonNonce,
-      AuditorPCTRandom: auditorEncryptionRandom,
-    };
+      // encrypt the message if provided
+      progress("encrypting");
+      const encryptedMessage = message
+        ? await encryptMetadata(this.poseidon, receiverPublicKey, message)
+        : "";
 
-    const proof = await this.generateProof(input, "MINT");
+      // 1. encrypt the total mint amount
+      const { cipher: encryptedAmount, random: encryptedAmountRandom } =
+        await this.curve.encryptMessage(receiverPublicKey, mintAmount);
 
-    // simulate the transaction
-    const { request } = await this.client.simulateContract({
-      abi: message ? PRIVATE_MINT_WITH_MESSAGE_ABI : this.encryptedErcAbi,
-      address: this.contractAddress,
-      functionName: "privateMint",
-      args: message ? [recipient, proof, encryptedMessage] : [recipient, proof],
-      account: this.wallet.account,
-    });
+      // 2. create pct for the receiver with the mint amount
+      const {
+        cipher: receiverCiphertext,
+        nonce: receiverPoseidonNonce,
+        authKey: receiverAuthKey,
+        encryptionRandom: receiverEncryptionRandom,
+      } = await this.poseidon.processPoseidonEncryption({
+        inputs: [mintAmount],
+        publicKey: receiverPublicKey as Point,
+      });
 
-    // send the transaction
-    const transactionHash = await this.wallet.writeContract(request);
+      // 3. create pct for the auditor with the mint amount
+      const {
+        cipher: auditorCiphertext,
+        nonce: auditorPoseidonNonce,
+        authKey: auditorAuthKey,
+        encryptionRandom: auditorEncryptionRandom,
+      } = await this.poseidon.processPoseidonEncryption({
+        inputs: [mintAmount],
+        publicKey: auditorPublicKey as Point,
+      });
+
+      // 4. creates nullifier for auditor ciphertext
+      const chainId = await this.client.getChainId();
+      const nullifier = poseidon5([chainId, ...auditorCiphertext].map(String));
+
+      const input = {
+        ValueToMint: mintAmount,
+        ChainID: chainId,
+        NullifierHash: nullifier,
+        ReceiverPublicKey: receiverPublicKey,
+        ReceiverVTTC1: encryptedAmount.c1,
+        ReceiverVTTC2: encryptedAmount.c2,
+        ReceiverVTTRandom: encryptedAmountRandom,
+        ReceiverPCT: receiverCiphertext,
+        ReceiverPCTAuthKey: receiverAuthKey,
+        ReceiverPCTNonce: receiverPoseidonNonce,
+        ReceiverPCTRandom: receiverEncryptionRandom,
+        AuditorPublicKey: auditorPublicKey,
+        AuditorPCT: auditorCiphertext,
+        AuditorPCTAuthKey: auditorAuthKey,
+        AuditorPCTNonce: auditorPoseidonNonce,
+        AuditorPCTRandom: auditorEncryptionRandom,
+      };
+
+      const proof = await this.generateProof(input, "MINT", progress);
+
+      // simulate the transaction
+      progress("simulating");
+      const { request } = await this.client.simulateContract({
+        abi: message ? PRIVATE_MINT_WITH_MESSAGE_ABI : this.encryptedErcAbi,
+        address: this.contractAddress,
+        functionName: "privateMint",
+        args: message
+          ? [recipient, proof, encryptedMessage]
+          : [recipient, proof],
+        account: this.wallet.account,
+      });
 
-    return { transactionHash };
+      // send the transaction
+      progress("signing");
+      const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      const receipt = await this.confirmOperation(transactionHash, progress, {
+        eventName: "PrivateMint",
+        amount: mintAmount,
+      });
+
+      return { transactionHash, receipt };
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "mint");
+    }
   }
 
   /**
@@ -362,85 +821,131 @@ export class EERC {
     auditorPublicKey: bigint[],
     message?: string,
   ) {
-    if (this.isConverter) throw new Error("Not allowed for converter!");
-    this.validateAmount(amount, decryptedBalance);
-    logMessage("Burning encrypted tokens");
+    return this.enqueue(
+      "burn",
+      undefined,
+      encryptedBalance,
+      decryptedBalance,
+      (encrypted, decrypted) =>
+        this.sendPrivateBurn(
+          amount,
+          encrypted,
+          decrypted,
+          auditorPublicKey,
+          message,
+        ),
+    );
+  }
 
-    // encrypt the message if provided
-    const encryptedMessage = message
-      ? await encryptMetadata(this.poseidon, this.publicKey, message)
-      : "";
+  /**
+   * sends the burn with the given balance, called by the operation queue
+   */
+  private async sendPrivateBurn(
+    amount: bigint,
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    auditorPublicKey: bigint[],
+    message?: string,
+  ) {
+    const progress = this.trackOperation("burn");
+    try {
+      if (this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for converter!",
+        );
+      this.validateAmount(amount, decryptedBalance);
+      await this.assertKeyMatches();
+      logMessage("Burning encrypted tokens");
 
-    const privateKey = formatKeyForCurve(this.decryptionKey);
+      // encrypt the message if provided
+      progress("encrypting");
+      const encryptedMessage = message
+        ? await encryptMetadata(this.poseidon, this.publicKey, message)
+        : "";
 
-    // encrypt the amount with the user public key
-    const { cipher: encryptedAmount } = await this.curve.encryptMessage(
-      this.publicKey as Point,
-      amount,
-    );
+      const privateKey = formatKeyForCurve(this.decryptionKey);
 
-    // create pct for the auditor
-    const {
-      cipher: auditorCiphertext,
-      nonce: auditorPoseidonNonce,
-      authKey: auditorAuthKey,
-      encryptionRandom: auditorEncryptionRandom,
-    } = await this.poseidon.processPoseidonEncryption({
-      inputs: [amount],
-      publicKey: auditorPublicKey as Point,
-    });
+      // encrypt the amount with the user public key
+      const { cipher: encryptedAmount } = await this.curve.encryptMessage(
+        this.publicKey as Point,
+        amount,
+      );
 
-    const senderNewBalance = decryptedBalance - amount;
-    const {
-      cipher: userCiphertext,
-      nonce: userPoseidonNonce,
-      authKey: userAuthKey,
-    } = await this.poseidon.processPoseidonEncryption({
-      inputs: [senderNewBalance],
-      publicKey: this.publicKey as Point,
-    });
+      // create pct for the auditor
+      const {
+        cipher: auditorCiphertext,
+        nonce: auditorPoseidonNonce,
+        authKey: auditorAuthKey,
+        encryptionRandom: auditorEncryptionRandom,
+      } = await this.poseidon.processPoseidonEncryption({
+        inputs: [amount],
+        publicKey: auditorPublicKey as Point,
+      });
 
-    // prepare circuit inputs
-    const input = {
-      ValueToBurn: amount,
-      SenderPrivateKey: privateKey,
-      SenderPublicKey: this.publicKey,
-      SenderBalance: decryptedBalance,
-      SenderBalanceC1: encryptedBalance.slice(0, 2),
-      SenderBalanceC2: encryptedBalance.slice(2, 4),
-      SenderVTBC1: encryptedAmount.c1,
-      SenderVTBC2: encryptedAmount.c2,
-      AuditorPublicKey: auditorPublicKey,
-      AuditorPCT: auditorCiphertext,
-      AuditorPCTAuthKey: auditorAuthKey,
-      AuditorPCTNonce: auditorPoseidonNonce,
-      AuditorPCTRandom: auditorEncryptionRandom,
-    };
+      const senderNewBalance = decryptedBalance - amount;
+      const {
+        cipher: userCiphertext,
+        nonce: userPoseidonNonce,
+        authKey: userAuthKey,
+      } = await this.poseidon.processPoseidonEncryption({
+        inputs: [senderNewBalance],
+        publicKey: this.publicKey as Point,
+      });
 
-    const proof = await this.generateProof(input, "BURN");
+      // prepare circuit inputs
+      const input = {
+        ValueToBurn: amount,
+        SenderPrivateKey: privateKey,
+        SenderPublicKey: this.publicKey,
+        SenderBalance: decryptedBalance,
+        SenderBalanceC1: encryptedBalance.slice(0, 2),
+        SenderBalanceC2: encryptedBalance.slice(2, 4),
+        SenderVTBC1: encryptedAmount.c1,
+        SenderVTBC2: encryptedAmount.c2,
+        AuditorPublicKey: auditorPublicKey,
+        AuditorPCT: auditorCiphertext,
+        AuditorPCTAuthKey: auditorAuthKey,
+        AuditorPCTNonce: auditorPoseidonNonce,
+        AuditorPCTRandom: auditorEncryptionRandom,
+      };
 
-    logMessage("Sending transaction");
+      const proof = await this.generateProof(input, "BURN", progress);
 
-    // simulate the transaction
-    const { request } = await this.client.simulateContract({
-      abi: message ? this.encryptedErcAbi : PRIVATE_BURN_ABI,
-      address: this.contractAddress,
-      functionName: "privateBurn",
-      args: message
-        ? [
-            this.wallet.account?.address,
-            proof,
-            [...userCiphertext, ...userAuthKey, userPoseidonNonce],
-            encryptedMessage,
-          ]
-        : [proof, [...userCiphertext, ...userAuthKey, userPoseidonNonce]],
-      account: this.wallet.account,
-    });
+      logMessage("Sending transaction");
 
-    // send the transaction
-    const transactionHash = await this.wallet.writeContract(request);
+      // simulate the transaction
+      progress("simulating");
+      const { request } = await this.client.simulateContract({
+        abi: message ? this.encryptedErcAbi : PRIVATE_BURN_ABI,
+        address: this.contractAddress,
+        functionName: "privateBurn",
+        args: message
+          ? [
+              this.wallet.account?.address,
+              proof,
+              [...userCiphertext, ...userAuthKey, userPoseidonNonce],
+              encryptedMessage,
+            ]
+          : [proof, [...userCiphertext, ...userAuthKey, userPoseidonNonce]],
+        account: this.wallet.account,
+      });
+
+      // send the transaction
+      progress("signing");
+      const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      this.emitPending("burn", transactionHash, amount, encryptedAmount);
+      const receipt = await this.confirmOperation(transactionHash, progress, {
+        eventName: "PrivateBurn",
+        amount: amount,
+      });
 
-    return { transactionHash };
+      return { transactionHash, receipt };
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "burn");
+    }
   }
 
   /**
@@ -461,124 +966,712 @@ export class EERC {
     auditorPublicKey: bigint[],
     tokenAddress?: string,
     message?: string,
-  ): Promise<{
-    transactionHash: `0x${string}`;
-    receiverEncryptedAmount: string[];
-    senderEncryptedAmount: string[];
-  }> {
-    this.validateAddress(to);
-    this.validateAmount(amount, decryptedBalance);
-
-    const receiverPublicKey = await this.fetchPublicKey(to);
-
-    // encrypt the message if provided
-    const encryptedMessage = message
-      ? await encryptMetadata(this.poseidon, receiverPublicKey, message)
-      : "";
-
-    let tokenId = 0n;
-    if (tokenAddress) {
-      tokenId = await this.fetchTokenId(tokenAddress);
-    }
-
-    logMessage("Transferring encrypted tokens");
-    const {
-      proof,
-      senderBalancePCT,
-      receiverEncryptedAmount,
-      senderEncryptedAmount,
-    } = await this.generateTransferProof(
-      to,
-      amount,
+  ) {
+    return this.enqueue(
+      "transfer",
+      tokenAddress,
       encryptedBalance,
       decryptedBalance,
-      auditorPublicKey,
+      (encrypted, decrypted) =>
+        this.sendTransfer(
+          to,
+          amount,
+          encrypted,
+          decrypted,
+          auditorPublicKey,
+          tokenAddress,
+          message,
+        ),
     );
+  }
 
-    logMessage("Sending transaction");
-    const { request } = await this.client.simulateContract({
-      abi: message ? TRANSFER_WITH_MESSAGE_ABI : this.encryptedErcAbi,
-      address: this.contractAddress,
-      functionName: "transfer",
-      args: message
-        ? [to, tokenId, proof, senderBalancePCT, encryptedMessage]
-        : [to, tokenId, proof, senderBalancePCT],
-      account: this.wallet.account,
-    });
-
-    const transactionHash = await this.wallet.writeContract(request);
-    logMessage("Transaction sent");
+  /**
+   * sends the transfer with the given balance, called by the operation queue
+   */
+  private async sendTransfer(
+    to: string,
+    amount: bigint,
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    auditorPublicKey: bigint[],
+    tokenAddress?: string,
+    message?: string,
+  ): Promise<
+    OperationResult & {
+      receiverEncryptedAmount: string[];
+      senderEncryptedAmount: string[];
+    }
+  > {
+    const progress = this.trackOperation(
+      "transfer",
+      tokenAddress as `0x${string}` | undefined,
+    );
+    try {
+      this.validateAddress(to);
+      this.validateAmount(amount, decryptedBalance);
+      await this.assertKeyMatches();
+
+      progress("fetchingKeys");
+      const receiverPublicKey = await this.fetchPublicKey(to);
+
+      // encrypt the message if provided
+      const encryptedMessage = message
+        ? await encryptMetadata(this.poseidon, receiverPublicKey, message)
+        : "";
+
+      let tokenId = 0n;
+      if (tokenAddress) {
+        tokenId = await this.fetchTokenId(tokenAddress);
+      }
+
+      logMessage("Transferring encrypted tokens");
+      const {
+        proof,
+        senderBalancePCT,
+        receiverEncryptedAmount,
+        senderEncryptedAmount,
+        senderVTT,
+      } = await this.generateTransferProof(
+        to,
+        amount,
+        encryptedBalance,
+        decryptedBalance,
+        auditorPublicKey,
+        progress,
+      );
+
+      logMessage("Sending transaction");
+      progress("simulating");
+      const { request } = await this.client.simulateContract({
+        abi: message ? TRANSFER_WITH_MESSAGE_ABI : this.encryptedErcAbi,
+        address: this.contractAddress,
+        functionName: "transfer",
+        args: message
+          ? [to, tokenId, proof, senderBalancePCT, encryptedMessage]
+          : [to, tokenId, proof, senderBalancePCT],
+        account: this.wallet.account,
+      });
+
+      progress("signing");
+      const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      this.emitPending(
+        "transfer",
+        transactionHash,
+        amount,
+        senderVTT,
+        tokenAddress,
+      );
+      const receipt = await this.confirmOperation(transactionHash, progress, {
+        eventName: "PrivateTransfer",
+        amount: amount,
+      });
+      logMessage("Transaction sent");
+
+      return {
+        transactionHash,
+        receipt,
+        receiverEncryptedAmount,
+        senderEncryptedAmount,
+      };
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "transfer");
+    }
+  }
+
+  /**
+   * function to transfer encrypted tokens to multiple recipients, one transaction per recipient
+   * every proof is generated from the balance computed locally after the previous transfer,
+   * so the balance is not refetched between the transfers
+   * stops at the first failed transfer, the remaining recipients and the balance after the
+   * successful transfers are returned to resume the batch
+   * @param recipients recipients with their amounts and messages
+   * @param encryptedBalance encrypted balance of the user
+   * @param decryptedBalance decrypted balance of the user
+   * @param auditorPublicKey auditor public key
+   * @param tokenAddress token address, only for the converter version
+   * @returns result of every recipient
+   */
+  async batchTransfer(
+    recipients: BatchTransferRecipient[],
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    auditorPublicKey: bigint[],
+    tokenAddress?: string,
+  ) {
+    return this.enqueue(
+      "transfer",
+      tokenAddress,
+      encryptedBalance,
+      decryptedBalance,
+      (encrypted, decrypted) =>
+        this.sendBatchTransfer(
+          recipients,
+          encrypted,
+          decrypted,
+          auditorPublicKey,
+          tokenAddress,
+        ),
+    );
+  }
+
+  /**
+   * sends the batch transfer with the given balance, called by the operation queue
+   */
+  private async sendBatchTransfer(
+    recipients: BatchTransferRecipient[],
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    auditorPublicKey: bigint[],
+    tokenAddress?: string,
+  ): Promise<BatchTransferResult> {
+    let tokenId = 0n;
+    let receiverPublicKeys: Point[];
+    let encryptedMessages: string[];
+
+    try {
+      if (!recipients.length)
+        throw new EERCValidationError("INVALID_AMOUNT", "No recipients!");
+      for (const { to, amount } of recipients) {
+        this.validateAddress(to);
+        this.validateAmount(amount);
+      }
+      const total = recipients.reduce((acc, { amount }) => acc + amount, 0n);
+      this.validateAmount(total, decryptedBalance);
+      await this.assertKeyMatches();
+
+      // every recipient has to be registered before the first transfer is sent
+      receiverPublicKeys = await Promise.all(
+        recipients.map(({ to }) => this.fetchPublicKey(to)),
+      );
+      const unregistered = recipients.filter(
+        (_, i) =>
+          receiverPublicKeys[i][0] === 0n && receiverPublicKeys[i][1] === 0n,
+      );
+      if (unregistered.length)
+        throw new EERCValidationError(
+          "RECEIVER_NOT_REGISTERED",
+          `Receivers are not registered: ${unregistered.map(({ to }) => to).join(", ")}`,
+        );
+
+      encryptedMessages = await Promise.all(
+        recipients.map(({ message }, i) =>
+          message
+            ? encryptMetadata(this.poseidon, receiverPublicKeys[i], message)
+            : "",
+        ),
+      );
+
+      if (tokenAddress) tokenId = await this.fetchTokenId(tokenAddress);
+    } catch (e) {
+      throw toEERCError(e, "transfer");
+    }
+
+    const results: BatchTransferItemResult[] = [];
+    let balance = { encrypted: encryptedBalance, decrypted: decryptedBalance };
+
+    for (const [i, recipient] of recipients.entries()) {
+      const { to, amount, message } = recipient;
+      if (results.some(({ status }) => status === "failed")) {
+        results.push({ ...recipient, status: "skipped" });
+        continue;
+      }
+
+      const progress = this.trackOperation(
+        "transfer",
+        tokenAddress as `0x${string}` | undefined,
+      );
+      let transactionHash: `0x${string}` | undefined;
+      try {
+        logMessage(`Transferring to ${to} (${i + 1}/${recipients.length})`);
+        const { proof, senderBalancePCT, senderVTT } =
+          await this.generateTransferProof(
+            to,
+            amount,
+            balance.encrypted,
+            balance.decrypted,
+            auditorPublicKey,
+            progress,
+            receiverPublicKeys[i],
+          );
+
+        progress("simulating");
+        const { request } = await this.client.simulateContract({
+          abi: message ? TRANSFER_WITH_MESSAGE_ABI : this.encryptedErcAbi,
+          address: this.contractAddress,
+          functionName: "transfer",
+          args: message
+            ? [to, tokenId, proof, senderBalancePCT, encryptedMessages[i]]
+            : [to, tokenId, proof, senderBalancePCT],
+          account: this.wallet.account,
+        });
+
+        progress("signing");
+        transactionHash = await this.wallet.writeContract(request);
+        progress("broadcast", { transactionHash });
+        this.emitPending(
+          "transfer",
+          transactionHash,
+          amount,
+          senderVTT,
+          tokenAddress,
+        );
+
+        // the next proof is only valid once this transfer is mined
+        progress("confirming");
+        const receipt = await this.waitForReceipt(
+          transactionHash,
+          { confirmations: Math.max(this.confirmations, 1) },
+          { eventName: "PrivateTransfer", amount },
+        );
+        progress("confirmed", { transactionHash: receipt.transactionHash });
+
+        // contract subtracts the sender vtt from the balance ciphertext
+        balance = {
+          encrypted: [
+            ...this.curve.subPoints(
+              balance.encrypted.slice(0, 2) as Point,
+              senderVTT.c1,
+            ),
+            ...this.curve.subPoints(
+              balance.encrypted.slice(2, 4) as Point,
+              senderVTT.c2,
+            ),
+          ],
+          decrypted: balance.decrypted - amount,
+        };
+        results.push({
+          ...recipient,
+          status: "success",
+          transactionHash: receipt.transactionHash,
+          receipt,
+        });
+      } catch (e) {
+        progress("failed");
+        results.push({
+          ...recipient,
+          status: "failed",
+          transactionHash,
+          error: toEERCError(e, "transfer"),
+        });
+      }
+    }
+
+    return {
+      results,
+      remaining: results
+        .filter(({ status }) => status !== "success")
+        .map(({ to, amount, message }) => ({ to, amount, message })),
+      encryptedBalance: balance.encrypted,
+      decryptedBalance: balance.decrypted,
+    };
+  }
+
+  /**
+   * function to send an encrypted message to a user without moving any value
+   * @param to recipient address
+   * @param message message to encrypt
+   * @param options send message options
+   * @returns transaction hash
+   */
+  async sendMessage(
+    to: `0x${string}`,
+    message: string,
+    options: SendMessageOptions = {},
+  ): Promise<OperationResult> {
+    const progress = this.trackOperation("sendMessage");
+    try {
+      this.validateAddress(to);
+      if (!message)
+        throw new EERCValidationError("INVALID_MESSAGE", "Message is empty!");
+      if (!this.wallet.account?.address)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+
+      logMessage("Sending encrypted message");
+
+      // fetch the receiver public key if it is not provided
+      progress("fetchingKeys");
+      const receiverPublicKey =
+        (options.receiverPublicKey as Point | undefined) ??
+        (await this.fetchPublicKey(to));
+      if (receiverPublicKey[0] === 0n && receiverPublicKey[1] === 0n)
+        throw new EERCValidationError(
+          "RECEIVER_NOT_REGISTERED",
+          "Receiver is not registered!",
+        );
+
+      progress("encrypting");
+      const encryptedMessage = await encryptMetadata(
+        this.poseidon,
+        receiverPublicKey,
+        message,
+      );
+
+      logMessage("Sending transaction");
+
+      progress("simulating");
+      const { request } = await this.client.simulateContract({
+        abi: this.encryptedErcAbi,
+        address: this.contractAddress,
+        functionName: "sendEncryptedMetadata",
+        args: [to, encryptedMessage],
+        account: this.wallet.account,
+      });
+
+      progress("signing");
+      const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      const receipt = await this.confirmOperation(transactionHash, progress);
 
-    return { transactionHash, receiverEncryptedAmount, senderEncryptedAmount };
+      return { transactionHash, receipt };
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "sendMessage");
+    }
   }
 
   // function to deposit tokens to the contract
+  // amount is in token decimals, the part that can not be represented in eERC decimals is refunded as dust
   async deposit(
     amount: bigint,
     tokenAddress: string,
     eERCDecimals: bigint,
     message?: string,
-  ) {
-    if (!this.isConverter) throw new Error("Not allowed for stand alone!");
-    if (!this.wallet.account?.address) throw new Error("Missing wallet!");
-
-    logMessage("Depositing tokens to the contract");
-    // check if the user has enough approve amount
-    const approveAmount = await this.fetchUserApprove(
-      this.wallet.account.address,
-      tokenAddress,
+    options: DepositOptions = {},
+  ): Promise<DepositResult> {
+    const progress = this.trackOperation(
+      "deposit",
+      tokenAddress as `0x${string}`,
     );
+    try {
+      if (!this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for stand alone!",
+        );
+      if (!this.wallet.account?.address)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+      await this.assertKeyMatches();
+
+      // need to convert erc20 decimals -> eERC decimals (2)
+      const decimals = await this.client.readContract({
+        abi: erc20Abi,
+        address: tokenAddress as `0x${string}`,
+        functionName: "decimals",
+      });
+
+      const { amount: expectedAmount, dust } = splitDepositAmount(
+        amount,
+        decimals,
+        eERCDecimals,
+      );
+
+      if (expectedAmount <= 0n)
+        throw new EERCValidationError(
+          "INVALID_AMOUNT",
+          "Amount is smaller than the smallest eERC unit!",
+        );
+      if (dust > 0n && options.allowDust === false)
+        throw new EERCValidationError(
+          "DEPOSIT_DUST",
+          `Deposit leaves ${dust} as dust, deposit ${amount - dust} instead!`,
+        );
+
+      logMessage("Depositing tokens to the contract");
+      // check if the user has enough approve amount
+      const approveAmount = await this.fetchUserApprove(
+        this.wallet.account.address,
+        tokenAddress,
+      );
+
+      if (approveAmount < amount) {
+        throw new EERCValidationError(
+          "INSUFFICIENT_ALLOWANCE",
+          "Insufficient approval amount!",
+        );
+      }
+
+      // encrypt the message if provided
+      progress("encrypting");
+      const encryptedMessage = message
+        ? await encryptMetadata(this.poseidon, this.publicKey, message)
+        : "";
+
+      // user creates new balance pct for the deposit amount
+      const { cipher, nonce, authKey } =
+        await this.poseidon.processPoseidonEncryption({
+          inputs: [expectedAmount],
+          publicKey: this.publicKey as Point,
+        });
+
+      logMessage("Sending transaction");
+
+      progress("simulating");
+      const { request } = await this.client.simulateContract({
+        abi: message ? DEPOSIT_WITH_MESSAGE_ABI : this.encryptedErcAbi,
+        address: this.contractAddress as `0x${string}`,
+        functionName: "deposit",
+        args: message
+          ? [
+              amount,
+              tokenAddress,
+              [...cipher, ...authKey, nonce],
+              encryptedMessage,
+            ]
+          : [amount, tokenAddress, [...cipher, ...authKey, nonce]],
+        account: this.wallet.account,
+      });
+
+      // send the transaction
+      progress("signing");
+      const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      const receipt = await this.confirmOperation(transactionHash, progress);
 
-    if (approveAmount < amount) {
-      throw new Error("Insufficient approval amount!");
+      return { transactionHash, receipt, expectedAmount, dust };
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "deposit");
     }
+  }
+
+  /**
+   * function to deposit tokens, the token is approved first if the allowance does not cover the amount
+   * the allowance is given with an eip-2612 permit when enabled and supported by the token, otherwise with approve
+   * @param amount amount to deposit, in token decimals
+   * @param tokenAddress token address
+   * @param eERCDecimals decimals of the eERC
+   * @param message message to encrypt
+   * @param options approval amount, permit and dust handling
+   * @returns deposit result with the approval transaction hash
+   */
+  async approveAndDeposit(
+    amount: bigint,
+    tokenAddress: `0x${string}`,
+    eERCDecimals: bigint,
+    message?: string,
+    options: ApproveAndDepositOptions = {},
+  ): Promise<ApproveAndDepositResult> {
+    const progress = this.trackOperation("approve", tokenAddress);
+    let approvalTransactionHash: `0x${string}` | undefined;
+    try {
+      if (!this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for stand alone!",
+        );
+      const account = this.wallet.account;
+      if (!account?.address)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+      this.validateAmount(amount);
+      await this.assertKeyMatches();
+
+      // refuse before approving, the deposit would be refused anyway
+      if (options.allowDust === false) {
+        const decimals = await this.client.readContract({
+          abi: erc20Abi,
+          address: tokenAddress,
+          functionName: "decimals",
+        });
+        const { dust } = splitDepositAmount(amount, decimals, eERCDecimals);
+        if (dust > 0n)
+          throw new EERCValidationError(
+            "DEPOSIT_DUST",
+            `Deposit leaves ${dust} as dust, deposit ${amount - dust} instead!`,
+          );
+      }
 
-    // encrypt the message if provided
-    const encryptedMessage = message
-      ? await encryptMetadata(this.poseidon, this.publicKey, message)
-      : "";
+      const allowance = await this.fetchUserApprove(
+        account.address,
+        tokenAddress,
+      );
 
-    // need to convert erc20 decimals -> eERC decimals (2)
-    const decimals = await this.client.readContract({
-      abi: erc20Abi,
-      address: tokenAddress as `0x${string}`,
-      functionName: "decimals",
-    });
+      if (allowance < amount) {
+        const value = options.approval === "unlimited" ? maxUint256 : amount;
+
+        approvalTransactionHash =
+          (options.permit &&
+            (await this.permitToken(
+              tokenAddress,
+              value,
+              options.permitDeadline ?? 1200,
+              progress,
+            ))) ||
+          (await this.approveToken(tokenAddress, value, progress));
+
+        // the deposit is simulated against the new allowance
+        progress("confirming");
+        await this.waitForReceipt(approvalTransactionHash, {
+          confirmations: Math.max(this.confirmations, 1),
+        });
+        progress("confirmed");
+      }
+    } catch (e) {
+      progress("failed");
+      throw toEERCError(e, "approve");
+    }
 
-    const parsedAmount = this.convertTokenDecimals(
+    const result = await this.deposit(
       amount,
-      Number(decimals),
-      Number(eERCDecimals),
+      tokenAddress,
+      eERCDecimals,
+      message,
+      options,
     );
 
-    // user creates new balance pct for the deposit amount
-    const { cipher, nonce, authKey } =
-      await this.poseidon.processPoseidonEncryption({
-        inputs: [BigInt(parsedAmount)],
-        publicKey: this.publicKey as Point,
-      });
+    return { ...result, approvalTransactionHash };
+  }
+
+  /**
+   * function to approve the contract to spend the token
+   * @param tokenAddress token address
+   * @param value allowance
+   * @param progress progress reporter of the operation
+   * @returns approve transaction hash
+   */
+  private async approveToken(
+    tokenAddress: `0x${string}`,
+    value: bigint,
+    progress: ProgressReporter,
+  ): Promise<`0x${string}`> {
+    progress("simulating");
+    const { request } = await this.client.simulateContract({
+      abi: erc20Abi,
+      address: tokenAddress,
+      functionName: "approve",
+      args: [this.contractAddress, value],
+      account: this.wallet.account as Account,
+    });
+
+    progress("signing");
+    const transactionHash = await this.wallet.writeContract(request);
+    progress("broadcast", { transactionHash });
+
+    return transactionHash;
+  }
+
+  /**
+   * function to give the allowance with an eip-2612 permit signature
+   * @param tokenAddress token address
+   * @param value allowance
+   * @param validFor seconds the permit is valid for
+   * @param progress progress reporter of the operation
+   * @returns permit transaction hash, undefined if the token does not support permit
+   */
+  private async permitToken(
+    tokenAddress: `0x${string}`,
+    value: bigint,
+    validFor: number,
+    progress: ProgressReporter,
+  ): Promise<`0x${string}` | undefined> {
+    const account = this.wallet.account as Account;
+    const permit = await this.fetchPermitData(tokenAddress, account.address);
+    if (!permit) {
+      logMessage("Token does not support permit, approving instead");
+      return undefined;
+    }
 
-    logMessage("Sending transaction");
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + validFor);
+
+    progress("signing");
+    const signature = await this.wallet.signTypedData({
+      ...TYPED_MESSAGES.PERMIT(permit.domain, {
+        owner: account.address,
+        spender: this.contractAddress,
+        value,
+        nonce: permit.nonce,
+        deadline,
+      }),
+      account,
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
 
+    progress("simulating");
     const { request } = await this.client.simulateContract({
-      abi: message ? DEPOSIT_WITH_MESSAGE_ABI : this.encryptedErcAbi,
-      address: this.contractAddress as `0x${string}`,
-      functionName: "deposit",
-      args: message
-        ? [
-            amount,
-            tokenAddress,
-            [...cipher, ...authKey, nonce],
-            encryptedMessage,
-          ]
-        : [amount, tokenAddress, [...cipher, ...authKey, nonce]],
-      account: this.wallet.account,
+      abi: ERC20_PERMIT_ABI,
+      address: tokenAddress,
+      functionName: "permit",
+      args: [
+        account.address,
+        this.contractAddress,
+        value,
+        deadline,
+        Number(v ?? BigInt(yParity + 27)),
+        r,
+        s,
+      ],
+      account,
     });
 
-    // send the transaction
+    progress("signing");
     const transactionHash = await this.wallet.writeContract(request);
+    progress("broadcast", { transactionHash });
+
+    return transactionHash;
+  }
+
+  /**
+   * function to fetch the eip-712 domain and the permit nonce of the token
+   * @param tokenAddress token address
+   * @param owner token owner
+   * @returns domain and nonce, undefined if the token does not support permit
+   */
+  private async fetchPermitData(
+    tokenAddress: `0x${string}`,
+    owner: `0x${string}`,
+  ) {
+    const token = { abi: ERC20_PERMIT_ABI, address: tokenAddress } as const;
+
+    try {
+      const [nonce, separator, chainId] = await Promise.all([
+        this.client.readContract({
+          ...token,
+          functionName: "nonces",
+          args: [owner],
+        }),
+        this.client.readContract({
+          ...token,
+          functionName: "DOMAIN_SEPARATOR",
+        }),
+        this.client.getChainId(),
+      ]);
+
+      // eip-5267 domain, falls back to name and version of the token
+      let name: string;
+      let version: string;
+      try {
+        [, name, version] = await this.client.readContract({
+          ...token,
+          functionName: "eip712Domain",
+        });
+      } catch {
+        [name, version] = await Promise.all([
+          this.client.readContract({
+            abi: erc20Abi,
+            address: tokenAddress,
+            functionName: "name",
+          }),
+          this.client
+            .readContract({ ...token, functionName: "version" })
+            .catch(() => "1"),
+        ]);
+      }
 
-    return { transactionHash };
+      const domain = {
+        name,
+        version,
+        chainId,
+        verifyingContract: tokenAddress,
+      };
+
+      // a signature for a different domain would be rejected by the token
+      if (domainSeparator({ domain }) !== separator) return undefined;
+
+      return { domain, nonce };
+    } catch {
+      return undefined;
+    }
   }
 
   // function to deposit tokens to the contract
@@ -589,15 +1682,52 @@ export class EERC {
     auditorPublicKey: bigint[],
     tokenAddress: string,
     message?: string,
-  ): Promise<OperationResult> {
-    // only work if eerc is converter
-    if (!this.isConverter) throw new Error("Not allowed for stand alone!");
-    this.validateAmount(amount, decryptedBalance);
+  ) {
+    return this.enqueue(
+      "withdraw",
+      tokenAddress,
+      encryptedBalance,
+      decryptedBalance,
+      (encrypted, decrypted) =>
+        this.sendWithdraw(
+          amount,
+          encrypted,
+          decrypted,
+          auditorPublicKey,
+          tokenAddress,
+          message,
+        ),
+    );
+  }
 
+  /**
+   * sends the withdrawal with the given balance, called by the operation queue
+   */
+  private async sendWithdraw(
+    amount: bigint,
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    auditorPublicKey: bigint[],
+    tokenAddress: string,
+    message?: string,
+  ): Promise<OperationResult> {
+    const progress = this.trackOperation(
+      "withdraw",
+      tokenAddress as `0x${string}`,
+    );
     try {
+      // only work if eerc is converter
+      if (!this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for stand alone!",
+        );
+      this.validateAmount(amount, decryptedBalance);
+      await this.assertKeyMatches();
       const tokenId = await this.fetchTokenId(tokenAddress);
 
       // encrypt the message if provided
+      progress("encrypting");
       const encryptedMessage = message
         ? await encryptMetadata(this.poseidon, this.publicKey, message)
         : "";
@@ -641,8 +1771,9 @@ export class EERC {
       };
 
       // generate proof
-      const proof = await this.generateProof(input, "WITHDRAW");
+      const proof = await this.generateProof(input, "WITHDRAW", progress);
 
+      progress("simulating");
       const { request } = await this.client.simulateContract({
         abi: message ? WITHDRAW_WITH_MESSAGE_ABI : this.encryptedErcAbi,
         address: this.contractAddress as `0x${string}`,
@@ -662,11 +1793,32 @@ export class EERC {
         account: this.wallet.account,
       });
 
+      progress("signing");
       const transactionHash = await this.wallet.writeContract(request);
+      progress("broadcast", { transactionHash });
+      // contract encrypts the withdrawn amount with the random 1
+      this.emitPending(
+        "withdraw",
+        transactionHash,
+        amount,
+        {
+          c1: this.curve.Base8,
+          c2: this.curve.addPoints(
+            this.curve.mulWithScalar(this.curve.Base8, amount),
+            this.publicKey as Point,
+          ),
+        },
+        tokenAddress,
+      );
+      const receipt = await this.confirmOperation(transactionHash, progress, {
+        eventName: "Withdraw",
+        amount: amount,
+      });
 
-      return { transactionHash };
+      return { transactionHash, receipt };
     } catch (e) {
-      throw new Error(e as string);
+      progress("failed");
+      throw toEERCError(e, "withdraw");
     }
   }
 
@@ -677,6 +1829,7 @@ export class EERC {
    * @param encryptedBalance encrypted balance
    * @param decryptedBalance decrypted balance
    * @param auditorPublicKey auditor public key
+   * @param progress progress reporter of the calling operation
    * @returns proof and sender balance pct
    */
   private async generateTransferProof(
@@ -685,24 +1838,34 @@ export class EERC {
     encryptedBalance: bigint[],
     decryptedBalance: bigint,
     auditorPublicKey: bigint[],
+    progress: ProgressReporter = () => {},
+    receiverKey?: Point,
   ): Promise<{
     proof: eERC_Proof;
     senderBalancePCT: string[];
     receiverEncryptedAmount: string[];
     senderEncryptedAmount: string[];
+    senderVTT: ElGamalCipherText;
   }> {
     try {
       if (auditorPublicKey[0] === 0n && auditorPublicKey[1] === 0n)
-        throw new Error("Auditor is not set for the contract!");
+        throw new EERCValidationError(
+          "AUDITOR_NOT_SET",
+          "Auditor is not set for the contract!",
+        );
 
       this.validateAddress(to);
       this.validateAmount(amount, decryptedBalance);
 
       const senderNewBalance = decryptedBalance - amount;
       const privateKey = formatKeyForCurve(this.decryptionKey);
-      const receiverPublicKey = await this.fetchPublicKey(to);
+      const receiverPublicKey = receiverKey ?? (await this.fetchPublicKey(to));
+      progress("encrypting");
       if (receiverPublicKey[0] === 0n && receiverPublicKey[1] === 0n)
-        throw new Error("Receiver is not registered!");
+        throw new EERCValidationError(
+          "RECEIVER_NOT_REGISTERED",
+          "Receiver is not registered!",
+        );
 
       // 1. encrypt the transfer amount for sender
       const { cipher: encryptedAmountSender } = await this.curve.encryptMessage(
@@ -774,7 +1937,7 @@ export class EERC {
       };
 
       // generate transfer proof
-      const proof = await this.generateProof(input, "TRANSFER");
+      const proof = await this.generateProof(input, "TRANSFER", progress);
 
       // and also encrypts the amount of the transfer with sender public key for transaction history
       const {
@@ -803,9 +1966,10 @@ export class EERC {
           ...senderAmountAuthKey,
           senderAmountPoseidonNonce,
         ].map(String),
+        senderVTT: encryptedAmountSender,
       };
     } catch (e) {
-      throw new Error(e as string);
+      throw toEERCError(e, "transfer");
     }
   }
 
@@ -862,110 +2026,355 @@ export class EERC {
     return data as bigint;
   }
 
+  /**
+   * function to fetch token address from token id
+   * @param tokenId token id
+   * @returns token address
+   */
+  async fetchTokenAddress(tokenId: bigint) {
+    const data = await this.client.readContract({
+      abi: this.encryptedErcAbi,
+      address: this.contractAddress as `0x${string}`,
+      functionName: "tokenAddresses",
+      args: [tokenId],
+    });
+
+    return data as `0x${string}`;
+  }
+
   /**
    * function to calculate the total balance of the user by adding amount pcts with balance pct
    * at the end it decrypts the balance pct and compares it with the expected point make sure that balance is correct and
-   * pcts are synced with el gamal cipher text
+   * pcts are synced with el gamal cipher text, if they are not the balance is recovered from the el gamal cipher text
    * @param eGCT el gamal cipher text from contract
    * @param amountPCTs amount pct array
    * @param balancePCT balance pct array
-   * @returns total balance
+   * @returns total balance, -1n if it can not be recovered
    */
   calculateTotalBalance(
     eGCT: EGCT,
     amountPCTs: AmountPCT[],
     balancePCT: bigint[],
   ) {
+    return this.decryptBalance(eGCT, amountPCTs, balancePCT).balance;
+  }
+
+  /**
+   * function to decrypt the balance of the user and report the pcts that are not synced with el gamal cipher text
+   * @param eGCT el gamal cipher text from contract
+   * @param amountPCTs amount pct array
+   * @param balancePCT balance pct array
+   * @returns decrypted balance, its source and the inconsistent pcts
+   */
+  decryptBalance(
+    eGCT: EGCT,
+    amountPCTs: AmountPCT[],
+    balancePCT: bigint[],
+  ): DecryptedBalance {
     const privateKey = formatKeyForCurve(this.decryptionKey);
 
-    let totalBalance = 0n;
+    const pcts: InconsistentPCT[] = [];
+    const inconsistentPCTs: InconsistentPCT[] = [];
+
+    const decrypt = (pct: InconsistentPCT, cipher: bigint[]) => {
+      try {
+        pcts.push({ ...pct, amount: this.decryptPCT(cipher) });
+      } catch {
+        inconsistentPCTs.push(pct);
+      }
+    };
 
     if (balancePCT?.some((e) => e !== 0n)) {
-      const decryptedBalancePCT = this.decryptPCT(balancePCT);
-      totalBalance += decryptedBalancePCT;
+      decrypt({ type: "balance" }, balancePCT);
     }
 
     for (let i = 0; i < amountPCTs.length; i++) {
       const amountPCT = amountPCTs[i];
-      const decryptedPCT = this.decryptPCT(amountPCT.pct);
-      totalBalance += decryptedPCT;
+      decrypt({ type: "amount", index: amountPCT.index }, amountPCT.pct);
     }
 
-    if (totalBalance !== 0n) {
-      const decryptedEGCT = this.curve.elGamalDecryption(privateKey, {
-        c1: [eGCT.c1.x, eGCT.c1.y],
-        c2: [eGCT.c2.x, eGCT.c2.y],
-      });
-      const expectedPoint = this.curve.mulWithScalar(
-        this.curve.Base8,
-        totalBalance,
+    const totalBalance = pcts.reduce(
+      (acc, pct) => acc + (pct.amount ?? 0n),
+      0n,
+    );
+
+    // balance is not initialized yet
+    const isEmpty = [eGCT.c1.x, eGCT.c1.y, eGCT.c2.x, eGCT.c2.y].every(
+      (e) => e === 0n,
+    );
+    if (isEmpty && !inconsistentPCTs.length) {
+      return { balance: totalBalance, source: "pct", inconsistentPCTs };
+    }
+
+    const decryptedEGCT = this.curve.elGamalDecryption(privateKey, {
+      c1: [eGCT.c1.x, eGCT.c1.y],
+      c2: [eGCT.c2.x, eGCT.c2.y],
+    });
+    const expectedPoint = this.curve.mulWithScalar(
+      this.curve.Base8,
+      totalBalance,
+    );
+
+    if (
+      !inconsistentPCTs.length &&
+      decryptedEGCT[0] === expectedPoint[0] &&
+      decryptedEGCT[1] === expectedPoint[1]
+    ) {
+      return { balance: totalBalance, source: "pct", inconsistentPCTs };
+    }
+
+    logMessage("PCTs are not synced with the balance, recovering from EGCT");
+
+    const balance = this.curve.discreteLog(
+      decryptedEGCT,
+      this.bsgsMaxValue,
+      this.getBabyStepTable(),
+    );
+
+    // pcts that decrypt to values out of range are encrypted with another key or corrupted
+    const validPCTs = pcts.filter((pct) => {
+      if ((pct.amount as bigint) <= this.bsgsMaxValue) return true;
+      inconsistentPCTs.push(pct);
+      return false;
+    });
+
+    const validTotal = validPCTs.reduce(
+      (acc, pct) => acc + (pct.amount as bigint),
+      0n,
+    );
+    if (balance !== null && validTotal !== balance) {
+      const culprit = validPCTs.find(
+        (pct) => validTotal - (pct.amount as bigint) === balance,
       );
+      if (culprit) inconsistentPCTs.push(culprit);
+    }
 
-      if (
-        decryptedEGCT[0] !== expectedPoint[0] ||
-        decryptedEGCT[1] !== expectedPoint[1]
-      ) {
-        return -1n;
-      }
+    return { balance: balance ?? -1n, source: "egct", inconsistentPCTs };
+  }
+
+  /**
+   * returns the baby-step table used to recover balances from el gamal cipher text,
+   * generates it on first use, can be serialized and passed back with the `bsgs` option
+   * @returns baby-step table
+   */
+  getBabyStepTable(): BabyStepTable {
+    if (!this.babyStepTable) {
+      logMessage("Generating baby-step table");
+      this.babyStepTable = this.curve.generateBabyStepTable(
+        Number(ceilSqrt(this.bsgsMaxValue + 1n)),
+      );
     }
+    return this.babyStepTable;
+  }
 
-    return totalBalance;
+  /**
+   * waits for the transaction to be mined and decodes the eERC events of the receipt
+   * @param transactionHash transaction hash
+   * @param options confirmations and timeout
+   * @returns receipt with the decoded events
+   */
+  public async waitForOperation(
+    transactionHash: `0x${string}`,
+    options: WaitForOperationOptions = {},
+  ): Promise<OperationReceipt> {
+    try {
+      return await this.waitForReceipt(transactionHash, options);
+    } catch (e) {
+      throw toEERCError(e, "waitForOperation");
+    }
   }
 
   /**
-   * function to decrypt the private message from the transaction logs
+   * waits for the configured confirmations, returns right away if there are none
    * @param transactionHash transaction hash
-   * @returns decrypted message
+   * @param progress progress reporter of the operation
+   * @param own event emitted by the operation and its amount known by the caller
+   * @returns receipt or undefined if the operation does not wait
    */
-  public async decryptMessage(transactionHash: string) {
-    const tx = await this.client.getTransaction({
-      hash: transactionHash as `0x${string}`,
-    });
+  private async confirmOperation(
+    transactionHash: `0x${string}`,
+    progress: ProgressReporter,
+    own?: { eventName: OperationEvent["eventName"]; amount: bigint },
+  ): Promise<OperationReceipt | undefined> {
+    if (!this.confirmations) return undefined;
+
+    progress("confirming");
+    const receipt = await this.waitForReceipt(
+      transactionHash,
+      { confirmations: this.confirmations },
+      own,
+    );
+    progress("confirmed", { transactionHash: receipt.transactionHash });
 
-    const logs = await this.client.getLogs({
-      event: {
-        ...PRIVATE_MESSAGE_EVENT,
-        type: "event",
+    return receipt;
+  }
+
+  private async waitForReceipt(
+    transactionHash: `0x${string}`,
+    { confirmations = 1, timeout }: WaitForOperationOptions,
+    own?: { eventName: OperationEvent["eventName"]; amount: bigint },
+  ): Promise<OperationReceipt> {
+    let replacement = undefined as ReplacementReturnType | undefined;
+    const receipt = await this.client.waitForTransactionReceipt({
+      hash: transactionHash,
+      confirmations,
+      timeout,
+      onReplaced: (r) => {
+        replacement = r;
       },
-      address: this.contractAddress,
-      fromBlock: tx.blockNumber,
-      toBlock: tx.blockNumber,
     });
 
-    if (!logs || logs.length === 0) {
-      throw new Error("No private message found for this transaction");
+    // repriced transactions still execute the same call, others do not
+    if (replacement && replacement.reason !== "repriced") {
+      throw new EERCTransactionError(
+        "TRANSACTION_REPLACED",
+        `Transaction ${transactionHash} was ${replacement.reason} by ${replacement.transaction.hash}`,
+      );
     }
 
-    const { encryptedMsg, messageType, messageFrom, messageTo } = (
-      logs[0].args as {
-        metadata: {
-          encryptedMsg: string;
-          messageType: string;
-          messageFrom: `0x${string}`;
-          messageTo: `0x${string}`;
-        };
+    if (receipt.status === "reverted") {
+      throw new EERCTransactionError(
+        "TRANSACTION_REVERTED",
+        `Transaction ${receipt.transactionHash} reverted in block ${receipt.blockNumber}`,
+      );
+    }
+
+    const logs = parseEventLogs({
+      abi: OPERATION_EVENTS_ABI,
+      logs: receipt.logs.filter(
+        (log) =>
+          log.address.toLowerCase() === this.contractAddress.toLowerCase(),
+      ),
+    });
+
+    const account = this.wallet.account?.address.toLowerCase();
+    const events: OperationEvent[] = [];
+    for (const log of logs) {
+      const args = log.args as Record<string, unknown>;
+      const event: OperationEvent = {
+        eventName: log.eventName as OperationEvent["eventName"],
+        logIndex: log.logIndex,
+        args,
+      };
+
+      if (event.eventName === "Deposit" || event.eventName === "Withdraw") {
+        event.decryptedAmount = args.amount as bigint;
+      } else if (event.eventName === "PrivateMessage") {
+        const metadata = args.metadata as Omit<
+          DecryptedMetadata,
+          "decryptedMessage"
+        > & { encryptedMsg: string };
+
+        if (
+          this.decryptionKey &&
+          metadata.messageTo.toLowerCase() === account
+        ) {
+          try {
+            event.message = {
+              decryptedMessage: await decryptMetadata(
+                this.poseidon,
+                formatKeyForCurve(this.decryptionKey),
+                metadata.encryptedMsg,
+              ),
+              messageType: metadata.messageType,
+              messageFrom: metadata.messageFrom,
+              messageTo: metadata.messageTo,
+            };
+          } catch (e) {
+            logMessage(`Failed to decrypt message: ${e}`);
+          }
+        }
+      } else if (
+        this.decryptionKey &&
+        (args.auditorAddress as string).toLowerCase() === account
+      ) {
+        event.decryptedAmount = this.decryptPCT(args.auditorPCT as bigint[]);
       }
-    ).metadata;
 
-    if (!encryptedMsg) {
-      throw new Error("No encrypted message found in the transaction logs");
-    }
+      if (own && event.eventName === own.eventName) {
+        event.decryptedAmount ??= own.amount;
+      }
 
-    const privateKey = formatKeyForCurve(this.decryptionKey);
-    const decryptedMessage = await decryptMetadata(
-      this.poseidon,
-      privateKey,
-      encryptedMsg,
-    );
+      events.push(event);
+    }
 
-    const metadata: DecryptedMetadata = {
-      decryptedMessage,
-      messageType,
-      messageFrom,
-      messageTo,
+    return {
+      transactionHash: receipt.transactionHash,
+      replacedTransactionHash:
+        receipt.transactionHash !== transactionHash
+          ? transactionHash
+          : undefined,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      events,
     };
+  }
+
+  /**
+   * function to decrypt the private message from the transaction logs
+   * @param transactionHash transaction hash
+   * @returns decrypted message
+   */
+  public async decryptMessage(transactionHash: string) {
+    try {
+      const tx = await this.client.getTransaction({
+        hash: transactionHash as `0x${string}`,
+      });
 
-    return metadata;
+      const logs = await this.client.getLogs({
+        event: {
+          ...PRIVATE_MESSAGE_EVENT,
+          type: "event",
+        },
+        address: this.contractAddress,
+        fromBlock: tx.blockNumber,
+        toBlock: tx.blockNumber,
+      });
+
+      if (!logs || logs.length === 0) {
+        throw new EERCError(
+          "NOT_FOUND",
+          "No private message found for this transaction",
+        );
+      }
+
+      const { encryptedMsg, messageType, messageFrom, messageTo } = (
+        logs[0].args as {
+          metadata: {
+            encryptedMsg: string;
+            messageType: string;
+            messageFrom: `0x${string}`;
+            messageTo: `0x${string}`;
+          };
+        }
+      ).metadata;
+
+      if (!encryptedMsg) {
+        throw new EERCError(
+          "NOT_FOUND",
+          "No encrypted message found in the transaction logs",
+        );
+      }
+
+      const privateKey = formatKeyForCurve(this.decryptionKey);
+      const decryptedMessage = await decryptMetadata(
+        this.poseidon,
+        privateKey,
+        encryptedMsg,
+      );
+
+      const metadata: DecryptedMetadata = {
+        decryptedMessage,
+        messageType,
+        messageFrom,
+        messageTo,
+      };
+
+      return metadata;
+    } catch (e) {
+      throw toEERCError(e, "decryptMessage");
+    }
   }
 
   /**
@@ -977,125 +2386,277 @@ export class EERC {
     transactionHash: string,
     tokenAddress?: `0x${string}`,
   ): Promise<DecryptedEvent[]> {
-    if (!this.decryptionKey) {
-      throw new Error("Decryption key is required to decrypt transactions");
-    }
-
-    const tx = await this.client.getTransaction({
-      hash: transactionHash as `0x${string}`,
-    });
-
-    const results: DecryptedEvent[] = [];
-
     try {
-      const decodedInputs = decodeFunctionData({
-        abi: this.encryptedErcAbi,
-        data: tx.input,
+      if (!this.decryptionKey) {
+        throw new EERCValidationError(
+          "MISSING_DECRYPTION_KEY",
+          "Decryption key is required to decrypt transactions",
+          { operation: "decryptTransaction" },
+        );
+      }
+
+      const tx = await this.client.getTransaction({
+        hash: transactionHash as `0x${string}`,
       });
 
-      const functionName = decodedInputs?.functionName;
-      if (!functionName) return results;
+      const results: DecryptedEvent[] = [];
 
-      const createBaseEvent = (
-        eventType: DecryptedEvent["eventType"],
-      ): Partial<DecryptedEvent> => ({
-        transactionHash,
-        blockNumber: tx.blockNumber as bigint,
-        eventType,
-        user: tx.from,
-      });
+      try {
+        const decodedInputs = decodeFunctionData({
+          abi: this.encryptedErcAbi,
+          data: tx.input,
+        });
 
-      if (functionName === "transfer") {
-        const balancePCT = decodedInputs.args?.[3] as bigint[];
-        const toAddress = decodedInputs.args?.[0] as `0x${string}`;
+        const functionName = decodedInputs?.functionName;
+        if (!functionName) return results;
 
-        try {
-          const balanceBeforeTx = await this.getHistoricalBalance(
-            tx.from,
-            tx.blockNumber - 1n,
-            tokenAddress,
-          );
+        const createBaseEvent = (
+          eventType: DecryptedEvent["eventType"],
+        ): Partial<DecryptedEvent> => ({
+          transactionHash,
+          blockNumber: tx.blockNumber as bigint,
+          eventType,
+          user: tx.from,
+        });
 
-          const balanceAfterTx = this.decryptPCT(balancePCT);
-          const transactionAmount = balanceBeforeTx - balanceAfterTx;
+        if (functionName === "transfer") {
+          const balancePCT = decodedInputs.args?.[3] as bigint[];
+          const toAddress = decodedInputs.args?.[0] as `0x${string}`;
+
+          try {
+            const balanceBeforeTx = await this.getHistoricalBalance(
+              tx.from,
+              tx.blockNumber - 1n,
+              tokenAddress,
+            );
+
+            const balanceAfterTx = this.decryptPCT(balancePCT);
+            const transactionAmount = balanceBeforeTx - balanceAfterTx;
+
+            results.push({
+              ...createBaseEvent("PrivateTransfer"),
+              from: tx.from,
+              to: toAddress,
+              decryptedAmount: transactionAmount.toString(),
+            } as DecryptedEvent);
+          } catch (error) {
+            results.push({
+              ...createBaseEvent("PrivateTransfer"),
+              from: tx.from,
+              to: toAddress,
+              decryptError: `Failed to decrypt transfer: ${error}`,
+            } as DecryptedEvent);
+          }
+        }
 
-          results.push({
-            ...createBaseEvent("PrivateTransfer"),
-            from: tx.from,
-            to: toAddress,
-            decryptedAmount: transactionAmount.toString(),
-          } as DecryptedEvent);
-        } catch (error) {
-          results.push({
-            ...createBaseEvent("PrivateTransfer"),
+        if (functionName === "privateMint") {
+          const recipient = decodedInputs.args?.[0] as `0x${string}`;
+          const { publicSignals } = decodedInputs.args?.[1] as {
+            publicSignals: readonly bigint[];
+          };
+
+          const mintEvent = {
+            ...createBaseEvent("PrivateMint"),
             from: tx.from,
-            to: toAddress,
-            decryptError: `Failed to decrypt transfer: ${error}`,
-          } as DecryptedEvent);
+            to: recipient,
+            user: recipient,
+            nullifierHash: readPublicSignal(
+              "MINT",
+              "NullifierHash",
+              publicSignals,
+            )[0]?.toString(),
+          } as DecryptedEvent;
+
+          // receiver pct is encrypted with the public key of the recipient
+          if (
+            recipient.toLowerCase() ===
+            this.wallet?.account?.address.toLowerCase()
+          ) {
+            try {
+              mintEvent.decryptedAmount = this.decryptPCT([
+                ...readPublicSignal("MINT", "ReceiverPCT", publicSignals),
+                ...readPublicSignal(
+                  "MINT",
+                  "ReceiverPCTAuthKey",
+                  publicSignals,
+                ),
+                ...readPublicSignal("MINT", "ReceiverPCTNonce", publicSignals),
+              ]).toString();
+            } catch (error) {
+              mintEvent.decryptError = `Failed to decrypt mint: ${error}`;
+            }
+          }
+
+          results.push(mintEvent);
         }
-      }
-
-      if (functionName === "privateBurn") {
-        const balancePCT = decodedInputs.args?.[1] as bigint[];
 
-        try {
-          const balanceBeforeTx = await this.getHistoricalBalance(
-            tx.from,
-            tx.blockNumber - 1n,
-            tokenAddress,
-          );
+        if (functionName === "privateBurn") {
+          const balancePCT = decodedInputs.args?.[1] as bigint[];
+
+          try {
+            const balanceBeforeTx = await this.getHistoricalBalance(
+              tx.from,
+              tx.blockNumber - 1n,
+              tokenAddress,
+            );
+
+            const balanceAfterTx = this.decryptPCT(balancePCT);
+            const transactionAmount = balanceBeforeTx - balanceAfterTx;
+
+            results.push({
+              ...createBaseEvent("PrivateBurn"),
+              user: tx.from,
+              amount: transactionAmount.toString(),
+            } as DecryptedEvent);
+          } catch (error) {
+            results.push({
+              ...createBaseEvent("PrivateBurn"),
+              user: tx.from,
+              decryptError: `Failed to decrypt burn: ${error}`,
+            } as DecryptedEvent);
+          }
+        }
 
-          const balanceAfterTx = this.decryptPCT(balancePCT);
-          const transactionAmount = balanceBeforeTx - balanceAfterTx;
-
-          results.push({
-            ...createBaseEvent("PrivateBurn"),
-            user: tx.from,
-            amount: transactionAmount.toString(),
-          } as DecryptedEvent);
-        } catch (error) {
-          results.push({
-            ...createBaseEvent("PrivateBurn"),
-            user: tx.from,
-            decryptError: `Failed to decrypt burn: ${error}`,
-          } as DecryptedEvent);
+        if (functionName === "deposit" || functionName === "withdraw") {
+          const eventType = functionName === "deposit" ? "Deposit" : "Withdraw";
+
+          try {
+            results.push({
+              ...createBaseEvent(eventType),
+              ...(await this.decodeConverterEvent(tx.hash, eventType)),
+            } as DecryptedEvent);
+          } catch (error) {
+            results.push({
+              ...createBaseEvent(eventType),
+              decryptError: `Failed to decode ${functionName}: ${error}`,
+            } as DecryptedEvent);
+          }
         }
+      } catch (error) {
+        console.warn("Failed to decode transaction:", error);
+
+        const basicEvent: DecryptedEvent = {
+          transactionHash,
+          blockNumber: tx.blockNumber as bigint,
+          eventType: "PrivateTransfer",
+          from: tx.from,
+          decryptError: `Failed to decode transaction: ${error}`,
+        };
+
+        results.push(basicEvent);
       }
 
-      if (functionName === "deposit" || functionName === "withdraw") {
-        const amount = decodedInputs.args?.[0] as bigint;
-        const eventType = functionName === "deposit" ? "Deposit" : "Withdraw";
+      return results;
+    } catch (e) {
+      throw toEERCError(e, "decryptTransaction");
+    }
+  }
 
-        try {
-          await this.client.getLogs({
-            address: this.contractAddress,
-            fromBlock: tx.blockNumber,
-            toBlock: tx.blockNumber,
-          });
+  /**
+   * reads the deposit or withdraw event from the transaction receipt with the amounts in both units
+   * @param transactionHash transaction hash
+   * @param eventType event to read
+   * @returns user, amounts, token and dust of the event
+   */
+  private async decodeConverterEvent(
+    transactionHash: `0x${string}`,
+    eventType: "Deposit" | "Withdraw",
+  ): Promise<Partial<DecryptedEvent>> {
+    const receipt = await this.client.getTransactionReceipt({
+      hash: transactionHash,
+    });
+    const [log] = parseEventLogs({
+      abi: OPERATION_EVENTS_ABI,
+      eventName: eventType,
+      logs: receipt.logs.filter(
+        (log) =>
+          log.address.toLowerCase() === this.contractAddress.toLowerCase(),
+      ),
+    });
+    if (!log)
+      throw new EERCError(
+        "NOT_FOUND",
+        `No ${eventType} event found for this transaction`,
+      );
 
-          results.push({
-            ...createBaseEvent(eventType as DecryptedEvent["eventType"]),
-            amount: amount.toString(),
-          } as DecryptedEvent);
-        } catch (error) {
-          console.warn(`Failed to fetch events for ${functionName}:`, error);
-        }
-      }
-    } catch (error) {
-      console.warn("Failed to decode transaction:", error);
+    const { user, amount, dust, tokenId } = log.args as {
+      user: `0x${string}`;
+      amount: bigint;
+      dust?: bigint;
+      tokenId: bigint;
+    };
 
-      const basicEvent: DecryptedEvent = {
-        transactionHash,
-        blockNumber: tx.blockNumber as bigint,
-        eventType: "PrivateTransfer",
-        from: tx.from,
-        decryptError: `Failed to decode transaction: ${error}`,
-      };
+    const { tokenAddress, ...decimals } =
+      await this.fetchConverterDecimals(tokenId);
+    const { eERCAmount, tokenAmount } = this.convertConverterAmount(
+      eventType,
+      amount,
+      dust,
+      decimals,
+    );
 
-      results.push(basicEvent);
-    }
+    return {
+      user,
+      amount: eERCAmount.toString(),
+      tokenAmount: tokenAmount.toString(),
+      tokenId,
+      tokenAddress,
+      dust: dust?.toString(),
+    };
+  }
+
+  /**
+   * reads the decimals of the converter token and of the eERC
+   * @param tokenId token id
+   * @returns token address, token decimals and eERC decimals
+   */
+  private async fetchConverterDecimals(tokenId: bigint) {
+    const tokenAddress = await this.fetchTokenAddress(tokenId);
+    const [tokenDecimals, eERCDecimals] = (await Promise.all([
+      this.client.readContract({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "decimals",
+      }),
+      this.client.readContract({
+        address: this.contractAddress,
+        abi: this.encryptedErcAbi,
+        functionName: "decimals",
+      }),
+    ])) as [number, number];
 
-    return results;
+    return { tokenAddress, tokenDecimals, eERCDecimals };
+  }
+
+  /**
+   * converts the amount of a deposit or withdraw event to eERC and token units
+   * deposits emit the token amount with the refunded dust, withdrawals emit the eERC amount
+   * @param eventType event of the amount
+   * @param amount amount emitted by the event
+   * @param dust refunded dust of the deposit
+   * @param decimals token and eERC decimals
+   * @returns amount in eERC decimals and in token decimals
+   */
+  private convertConverterAmount(
+    eventType: "Deposit" | "Withdraw",
+    amount: bigint,
+    dust: bigint | undefined,
+    {
+      tokenDecimals,
+      eERCDecimals,
+    }: { tokenDecimals: number; eERCDecimals: number },
+  ) {
+    if (eventType === "Deposit")
+      return {
+        eERCAmount: splitDepositAmount(amount, tokenDecimals, eERCDecimals)
+          .amount,
+        tokenAmount: amount - (dust ?? 0n),
+      };
+
+    return {
+      eERCAmount: amount,
+      tokenAmount: convertAmount(amount, eERCDecimals, tokenDecimals),
+    };
   }
 
   /**
@@ -1132,6 +2693,102 @@ export class EERC {
     return totalBalance;
   }
 
+  /**
+   * function to list the tokens of the converter contract with the decrypted balances of the user
+   * token metadata and encrypted balances are fetched in one multicall batch
+   * @returns tokens with the balance in eERC decimals and in token decimals
+   */
+  public async getPortfolio(): Promise<PortfolioToken[]> {
+    try {
+      if (!this.isConverter)
+        throw new EERCValidationError(
+          "NOT_ALLOWED",
+          "Not allowed for stand alone!",
+        );
+      const address = this.wallet?.account?.address;
+      if (!address)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
+      await this.assertKeyMatches();
+
+      const contract = {
+        address: this.contractAddress,
+        abi: this.encryptedErcAbi as Abi,
+      };
+
+      const [tokens, eERCDecimals] = (await Promise.all([
+        this.client.readContract({ ...contract, functionName: "getTokens" }),
+        this.client.readContract({ ...contract, functionName: "decimals" }),
+      ])) as [`0x${string}`[], number];
+      if (!tokens.length) return [];
+
+      // tokenIds, balance, symbol and decimals of every token
+      const results = await this.client.multicall({
+        allowFailure: true,
+        contracts: tokens.flatMap((token) => [
+          { ...contract, functionName: "tokenIds", args: [token] },
+          {
+            ...contract,
+            functionName: "getBalanceFromTokenAddress",
+            args: [address, token],
+          },
+          { address: token, abi: erc20Abi as Abi, functionName: "symbol" },
+          { address: token, abi: erc20Abi as Abi, functionName: "decimals" },
+        ]),
+      });
+
+      return tokens.map((tokenAddress, i) => {
+        const [tokenId, balance, symbol, decimals] = results.slice(
+          i * 4,
+          i * 4 + 4,
+        ) as { status: "success" | "failure"; result?: unknown }[];
+
+        if (tokenId?.status !== "success" || balance?.status !== "success")
+          throw new EERCError(
+            "NOT_FOUND",
+            `Failed to fetch the balance of ${tokenAddress}!`,
+          );
+
+        const contractBalanceArray = balance.result as bigint[];
+        const elGamalCipherText = contractBalanceArray[0] as unknown as EGCT;
+        const amountPCTs = contractBalanceArray[2] as unknown as AmountPCT[];
+        const balancePCT = contractBalanceArray[3] as unknown as bigint[];
+
+        const decryptedBalance = this.calculateTotalBalance(
+          elGamalCipherText,
+          amountPCTs,
+          balancePCT,
+        );
+
+        const tokenDecimals =
+          decimals?.status === "success" ? Number(decimals.result) : undefined;
+
+        return {
+          tokenAddress,
+          tokenId: tokenId.result as bigint,
+          symbol: symbol?.status === "success" ? (symbol.result as string) : "",
+          decimals: tokenDecimals,
+          balance: decryptedBalance,
+          underlyingBalance:
+            tokenDecimals === undefined || decryptedBalance < 0n
+              ? undefined
+              : convertAmount(
+                  decryptedBalance,
+                  Number(eERCDecimals),
+                  tokenDecimals,
+                ),
+          encryptedBalance: [
+            elGamalCipherText.c1.x,
+            elGamalCipherText.c1.y,
+            elGamalCipherText.c2.x,
+            elGamalCipherText.c2.y,
+          ],
+        };
+      });
+    } catch (e) {
+      throw toEERCError(e, "getPortfolio");
+    }
+  }
+
   /**
    * function to perform poseidon decryption on the pct
    * @param pct pct array
@@ -1158,281 +2815,802 @@ export class EERC {
 
   /**
    * @dev function checks if user has been auditor before from contract event logs
+   * @param options log scanner options
    */
-  async hasBeenAuditor(): Promise<boolean> {
-    const auditorChangedEvent = {
-      anonymous: false,
-      inputs: [
-        {
-          indexed: true,
-          internalType: "address",
-          name: "oldAuditor",
-          type: "address",
-        },
-        {
-          indexed: true,
-          internalType: "address",
-          name: "newAuditor",
-          type: "address",
-        },
-      ],
-      name: "AuditorChanged",
-    };
-
-    type NamedEvents = Log & {
-      eventName: string;
-      args: {
-        oldAuditor: `0x${string}`;
-        newAuditor: `0x${string}`;
+  async hasBeenAuditor(options?: LogScannerOptions): Promise<boolean> {
+    try {
+      const auditorChangedEvent = {
+        anonymous: false,
+        inputs: [
+          {
+            indexed: true,
+            internalType: "address",
+            name: "oldAuditor",
+            type: "address",
+          },
+          {
+            indexed: true,
+            internalType: "address",
+            name: "newAuditor",
+            type: "address",
+          },
+        ],
+        name: "AuditorChanged",
       };
-    };
 
-    const currentBlock = await this.client.getBlockNumber();
-    const BOUND = 1000n;
+      type NamedEvents = Log & {
+        eventName: string;
+        args: {
+          oldAuditor: `0x${string}`;
+          newAuditor: `0x${string}`;
+        };
+      };
 
-    // Fetch logs where the user was the oldAuditor
-    const logs = (await this.client.getLogs({
-      address: this.contractAddress,
-      event: { ...auditorChangedEvent, type: "event" },
-      fromBlock: currentBlock > BOUND ? currentBlock - BOUND : 0n,
-      toBlock: currentBlock,
-    })) as NamedEvents[];
-
-    // filter that only has oldAuditor and newAuditor is the user address
-    const filteredLogs = logs.filter(
-      (log) =>
-        log.args.oldAuditor.toLowerCase() ===
-          this.wallet.account?.address.toLowerCase() ||
-        log.args.newAuditor.toLowerCase() ===
-          this.wallet.account?.address.toLowerCase(),
-    );
+      const logs = await this.logScanner.getLogs<NamedEvents>(
+        [{ event: { ...auditorChangedEvent, type: "event" } as AbiEvent }],
+        options,
+      );
 
-    let currentStart = null;
+      // filter that only has oldAuditor and newAuditor is the user address
+      const filteredLogs = logs.filter(
+        (log) =>
+          log.args.oldAuditor.toLowerCase() ===
+            this.wallet.account?.address.toLowerCase() ||
+          log.args.newAuditor.toLowerCase() ===
+            this.wallet.account?.address.toLowerCase(),
+      );
 
-    for (const log of filteredLogs) {
-      const { oldAuditor, newAuditor } = log.args;
+      let currentStart = null;
+
+      for (const log of filteredLogs) {
+        const { oldAuditor, newAuditor } = log.args;
+
+        if (
+          newAuditor.toLowerCase() ===
+          this.wallet?.account?.address.toLowerCase()
+        ) {
+          currentStart = log.blockNumber;
+        } else if (
+          oldAuditor.toLowerCase() ===
+            this.wallet?.account?.address.toLowerCase() &&
+          currentStart !== null
+        ) {
+          return true;
+        }
+      }
 
-      if (
-        newAuditor.toLowerCase() === this.wallet?.account?.address.toLowerCase()
-      ) {
-        currentStart = log.blockNumber;
-      } else if (
-        oldAuditor.toLowerCase() ===
-          this.wallet?.account?.address.toLowerCase() &&
-        currentStart !== null
-      ) {
+      if (currentStart !== null) {
         return true;
       }
+
+      return false;
+    } catch (e) {
+      throw toEERCError(e, "hasBeenAuditor");
     }
+  }
+
+  /**
+   * function to decrypt the transactions of the auditor
+   * @param options log scanner options
+   * @returns decrypted transactions, latest first
+   */
+  async auditorDecrypt(
+    options?: LogScannerOptions,
+  ): Promise<DecryptedTransaction[]> {
+    const result: DecryptedTransaction[] = [];
 
-    if (currentStart !== null) {
-      return true;
+    for await (const page of this.auditorDecryptPages(options)) {
+      result.push(...page.transactions);
     }
 
-    return false;
+    logMessage(`Transactions decrypted: ${result.length}`);
+
+    // reverse the array to get the latest transactions first
+    return result.sort((a, b) => Number(b.blockNumber - a.blockNumber));
   }
 
   /**
-   * function to decrypt the transactions of the auditor
-   * @returns decrypted transactions
-   *
-   * @TODO: hasBeenAuditor?
+   * streams the decrypted transactions of the auditor page by page in block order
+   * @param options log scanner options
    */
-  async auditorDecrypt(): Promise<DecryptedTransaction[]> {
-    if (!this.decryptionKey) throw new Error("Missing decryption key!");
-    const isAuditor = await this.hasBeenAuditor();
+  async *auditorDecryptPages(
+    options?: LogScannerOptions,
+  ): AsyncGenerator<AuditorDecryptPage> {
+    if (!this.decryptionKey)
+      throw new EERCValidationError(
+        "MISSING_DECRYPTION_KEY",
+        "Missing decryption key!",
+        { operation: "auditorDecrypt" },
+      );
+    const isAuditor = await this.hasBeenAuditor(options);
     if (!isAuditor) {
-      throw new Error("User is not an auditor");
+      throw new EERCValidationError("NOT_AUDITOR", "User is not an auditor", {
+        operation: "auditorDecrypt",
+      });
     }
 
     type NamedEvents = Log & {
       eventName: string;
-      args: { auditorPCT: bigint[] };
+      args: {
+        auditorPCT: bigint[];
+        user?: `0x${string}`;
+        amount?: bigint;
+        dust?: bigint;
+        tokenId?: bigint;
+      };
     };
 
-    const result: (DecryptedTransaction & { blockNumber: bigint })[] = [];
-
     try {
-      const currentBlock = await this.client.getBlockNumber();
-      const BOUND = 1000n;
-
       logMessage("Fetching logs...");
 
-      const logs: NamedEvents[] = [];
-      for (const event of [
+      const auditedEvents = [
         PRIVATE_BURN_EVENT,
         PRIVATE_MINT_EVENT,
         PRIVATE_TRANSFER_EVENT,
-      ]) {
-        const fetchedLogs = (await this.client.getLogs({
-          address: this.contractAddress,
-          fromBlock: currentBlock > BOUND ? currentBlock - BOUND : 0n,
-          toBlock: currentBlock,
-          event: {
-            ...event,
-            type: "event",
-          },
-          args: {
-            auditorAddress: this.wallet?.account?.address,
-          },
-        })) as NamedEvents[];
+      ];
+      // withdrawals and deposits only exist in the converter version
+      if (this.isConverter) auditedEvents.push(WITHDRAW_EVENT);
+
+      const filters: LogFilter[] = auditedEvents.map((event) => ({
+        event: { ...event, type: "event" } as AbiEvent,
+        args: { auditorAddress: this.wallet?.account?.address },
+      }));
+      // deposits are public, they do not carry an auditor pct
+      if (this.isConverter)
+        filters.push({
+          event: { ...DEPOSIT_EVENT, type: "event" } as AbiEvent,
+        });
 
-        logs.push(...fetchedLogs);
-      }
+      // token id -> token address, resolved once per scan
+      const tokenAddresses = new Map<bigint, `0x${string}`>();
+      const resolveTokenAddress = async (tokenId: bigint) => {
+        const cached = tokenAddresses.get(tokenId);
+        if (cached) return cached;
+        const tokenAddress = await this.fetchTokenAddress(tokenId);
+        tokenAddresses.set(tokenId, tokenAddress);
+        return tokenAddress;
+      };
 
-      logMessage(`Fetched ${logs.length} logs from the contract`);
+      for await (const page of this.logScanner.scan<NamedEvents>(
+        filters,
+        options,
+      )) {
+        const transactions: DecryptedTransaction[] = [];
+
+        for (const log of page.logs) {
+          if (!log.transactionHash) continue;
+
+          if (log.eventName === "Deposit" || log.eventName === "Withdraw") {
+            const { user, amount, dust, tokenId } = log.args;
+            if (!user || tokenId === undefined) continue;
+
+            // withdrawn amount is read from the auditor pct, deposits are public
+            let decryptedAmount = amount ?? 0n;
+            if (log.eventName === "Withdraw") {
+              const auditorPCT = log.args.auditorPCT;
+              if (!auditorPCT || auditorPCT.length !== 7) continue;
+              decryptedAmount = this.decryptPCT(auditorPCT);
+            }
+
+            transactions.push({
+              transactionHash: log.transactionHash,
+              amount: decryptedAmount.toString(),
+              sender: user,
+              type: log.eventName,
+              receiver: user,
+              blockNumber: log.blockNumber as bigint,
+              tokenId,
+              tokenAddress: await resolveTokenAddress(tokenId),
+              dust: dust?.toString(),
+            });
+            continue;
+          }
+
+          const tx = await this.client.getTransaction({
+            hash: log.transactionHash,
+          });
 
-      for (const log of logs) {
-        if (!log.transactionHash) continue;
+          const auditorPCT = log?.args?.auditorPCT as bigint[];
+          if (!auditorPCT || auditorPCT?.length !== 7) continue;
 
-        const tx = await this.client.getTransaction({
-          hash: log.transactionHash,
-        });
+          const decryptedAmount = this.decryptPCT(auditorPCT);
+          const decodedInputs = decodeFunctionData({
+            abi: this.encryptedErcAbi,
+            data: tx.input,
+          });
 
-        const auditorPCT = log?.args?.auditorPCT as bigint[];
-        if (!auditorPCT || auditorPCT?.length !== 7) continue;
+          transactions.push({
+            transactionHash: log.transactionHash,
+            amount: decryptedAmount.toString(),
+            sender: tx.from,
+            type: log.eventName.replace("Private", ""),
+            receiver:
+              decodedInputs?.functionName === "privateBurn"
+                ? tx.to
+                : (decodedInputs?.args?.[0] as `0x${string}`),
+            blockNumber: tx.blockNumber,
+          });
+        }
 
-        const decryptedAmount = this.decryptPCT(auditorPCT);
-        const decodedInputs = decodeFunctionData({
-          abi: this.encryptedErcAbi,
-          data: tx.input,
-        });
+        logMessage(
+          `Fetched ${page.logs.length} logs from blocks ${page.fromBlock}-${page.toBlock}`,
+        );
 
-        result.push({
-          transactionHash: log.transactionHash,
-          amount: decryptedAmount.toString(),
-          sender: tx.from,
-          type: log.eventName.replace("Private", ""),
-          receiver:
-            decodedInputs?.functionName === "privateBurn"
-              ? tx.to
-              : (decodedInputs?.args?.[0] as `0x${string}`),
-          blockNumber: tx.blockNumber,
-        });
+        yield {
+          fromBlock: page.fromBlock,
+          toBlock: page.toBlock,
+          transactions,
+        };
       }
-
-      logMessage(`Transactions decrypted: ${result.length}`);
-
-      // reverse the array to get the latest transactions first
-      return result.sort(
-        (a, b) => Number(b.blockNumber) - Number(a.blockNumber),
-      ) as DecryptedTransaction[];
     } catch (e) {
-      throw new Error(e as string);
+      throw toEERCError(e, "auditorDecrypt");
     }
   }
 
-  private convertTokenDecimals(
-    amount: bigint,
-    fromDecimals: number,
-    toDecimals: number,
-  ): bigint {
+  /**
+   * function to fetch the transaction history of the user from the contract events
+   * amounts are decrypted from the proofs in the calldata, so it does not need an archive node
+   * scans backwards from toBlock in windows of chunkSize * concurrency blocks, at most maxWindows per call
+   * the start block is required, from the options or the log scanner config
+   * @param options block range, token and number of entries
+   * @returns entries of the page, latest first
+   */
+  async getHistory(options: HistoryOptions = {}): Promise<HistoryPage> {
     try {
-      if (fromDecimals === toDecimals) {
-        return amount;
-      }
+      if (!this.decryptionKey)
+        throw new EERCValidationError(
+          "MISSING_DECRYPTION_KEY",
+          "Missing decryption key!",
+        );
+      const user = this.wallet?.account?.address;
+      if (!user)
+        throw new EERCValidationError("MISSING_WALLET", "Missing wallet!");
 
-      // decimal difference
-      const diff = fromDecimals - toDecimals;
+      const {
+        tokenAddress,
+        limit = 20,
+        maxWindows = 4,
+        ...scanOptions
+      } = options;
+      // scanning from genesis takes thousands of getLogs calls
+      if (
+        (scanOptions.fromBlock ?? this.logScannerOptions.fromBlock) ===
+        undefined
+      )
+        throw new EERCValidationError(
+          "INVALID_CONFIG",
+          "History start block is not set!",
+        );
+      if (maxWindows < 1)
+        throw new EERCValidationError(
+          "INVALID_CONFIG",
+          "Max windows must be greater than 0!",
+        );
+      const { fromBlock, chunkSize, concurrency } = {
+        ...DEFAULT_LOG_SCANNER_OPTIONS,
+        ...this.logScannerOptions,
+        ...scanOptions,
+      };
+      const toBlock =
+        scanOptions.toBlock ?? (await this.client.getBlockNumber());
+      // private mints and burns only exist in the stand-alone version, with token id 0
+      const tokenId =
+        tokenAddress && this.isConverter
+          ? await this.fetchTokenId(tokenAddress)
+          : undefined;
+
+      const events: [typeof PRIVATE_TRANSFER_EVENT, Record<string, unknown>][] =
+        [
+          [PRIVATE_TRANSFER_EVENT, { from: user }],
+          [PRIVATE_TRANSFER_EVENT, { to: user }],
+          [PRIVATE_MINT_EVENT, { user }],
+          [PRIVATE_BURN_EVENT, { user }],
+          [PRIVATE_MESSAGE_EVENT, { from: user }],
+          [PRIVATE_MESSAGE_EVENT, { to: user }],
+        ];
+      if (this.isConverter)
+        events.push([DEPOSIT_EVENT, { user }], [WITHDRAW_EVENT, { user }]);
+
+      const filters: LogFilter[] = events.map(([event, args]) => ({
+        event: { ...event, type: "event" } as AbiEvent,
+        args,
+      }));
+
+      const window = chunkSize * BigInt(concurrency);
+      const entries: HistoryEntry[] = [];
+      let cursor = toBlock;
+
+      for (
+        let windows = 0;
+        windows < maxWindows && cursor >= fromBlock && entries.length < limit;
+        windows++
+      ) {
+        const start =
+          cursor - window + 1n > fromBlock ? cursor - window + 1n : fromBlock;
 
-      let convertedAmount = 0n;
-      if (diff > 0) {
-        const scalingFactor = 10n ** BigInt(diff);
-        convertedAmount = amount / scalingFactor;
-      } else {
-        const scalingFactor = 10n ** BigInt(Math.abs(diff));
-        convertedAmount = amount * BigInt(scalingFactor);
+        const logs = await this.logScanner.getLogs<HistoryLog>(filters, {
+          ...scanOptions,
+          fromBlock: start,
+          toBlock: cursor,
+        });
+        const page = await this.decodeHistory(logs, user);
+
+        entries.push(
+          ...page
+            .filter(
+              (entry) =>
+                tokenId === undefined || (entry.tokenId ?? tokenId) === tokenId,
+            )
+            .reverse(),
+        );
+
+        logMessage(
+          `Fetched ${logs.length} history logs from blocks ${start}-${cursor}`,
+        );
+        cursor = start - 1n;
       }
 
-      return convertedAmount;
+      return {
+        entries,
+        fromBlock: cursor + 1n,
+        toBlock,
+        nextToBlock: cursor >= fromBlock ? cursor : undefined,
+      };
     } catch (e) {
-      throw new Error(e as string);
+      throw toEERCError(e, "getHistory");
     }
   }
 
-  private async generateProof(
-    // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-    input: any,
-    operation: "REGISTER" | "MINT" | "WITHDRAW" | "TRANSFER" | "BURN",
-  ): Promise<eERC_Proof> {
-    let wasm: string;
-    let zkey: string;
-
-    switch (operation) {
-      case "REGISTER":
-        wasm = this.circuitURLs.register.wasm;
-        zkey = this.circuitURLs.register.zkey;
-        break;
-      case "MINT":
-        wasm = this.circuitURLs.mint.wasm;
-        zkey = this.circuitURLs.mint.zkey;
-        break;
-      case "WITHDRAW":
-        wasm = this.circuitURLs.withdraw.wasm;
-        zkey = this.circuitURLs.withdraw.zkey;
-        break;
-      case "TRANSFER":
-        wasm = this.circuitURLs.transfer.wasm;
-        zkey = this.circuitURLs.transfer.zkey;
-        break;
-      case "BURN":
-        wasm = this.circuitURLs.burn.wasm;
-        zkey = this.circuitURLs.burn.zkey;
-        break;
-      default:
-        throw new Error("Invalid operation");
+  /**
+   * decodes the history logs of the user in block order, messages are attached to
+   * the operation of the same transaction
+   * @param logs logs sorted by block number and log index
+   * @param user address of the user
+   * @returns history entries in block order
+   */
+  private async decodeHistory(
+    logs: HistoryLog[],
+    user: `0x${string}`,
+  ): Promise<HistoryEntry[]> {
+    const isUser = (address?: string) =>
+      address?.toLowerCase() === user.toLowerCase();
+
+    // self transfers and messages match both the from and the to filters
+    const seen = new Set<string>();
+    // a transaction is fetched once for all of its logs
+    const transactions = new Map<string, Promise<Transaction>>();
+    const getTransaction = (hash: `0x${string}`) => {
+      let tx = transactions.get(hash);
+      if (!tx) {
+        tx = this.client.getTransaction({ hash });
+        transactions.set(hash, tx);
+      }
+      return tx;
+    };
+
+    // decimals are read once per converter token
+    const converterDecimals = new Map<
+      bigint,
+      ReturnType<typeof this.fetchConverterDecimals>
+    >();
+    const getConverterDecimals = (tokenId: bigint) => {
+      let decimals = converterDecimals.get(tokenId);
+      if (!decimals) {
+        decimals = this.fetchConverterDecimals(tokenId);
+        converterDecimals.set(tokenId, decimals);
+      }
+      return decimals;
+    };
+
+    const entries: HistoryEntry[] = [];
+    const messages: HistoryEntry[] = [];
+
+    for (const log of logs) {
+      if (!log.transactionHash) continue;
+      const key = `${log.transactionHash}-${log.logIndex}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const entry: HistoryEntry = {
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber as bigint,
+        logIndex: log.logIndex ?? 0,
+        eventType: log.eventName,
+        direction: "in",
+      };
+      const { args } = log;
+
+      try {
+        switch (log.eventName) {
+          case "PrivateTransfer": {
+            entry.from = args.from;
+            entry.to = args.to;
+            entry.direction = isUser(args.from) ? "out" : "in";
+
+            const tx = await getTransaction(log.transactionHash);
+            const call = this.decodeOperationCall(tx.input);
+            const signals = call.proof.publicSignals;
+            entry.tokenId = call.tokenId;
+
+            entry.amount =
+              entry.direction === "out"
+                ? this.decryptEGCTAmount(
+                    readPublicSignal("TRANSFER", "SenderVTTC1", signals),
+                    readPublicSignal("TRANSFER", "SenderVTTC2", signals),
+                  )
+                : this.decryptPCT([
+                    ...readPublicSignal("TRANSFER", "ReceiverPCT", signals),
+                    ...readPublicSignal(
+                      "TRANSFER",
+                      "ReceiverPCTAuthKey",
+                      signals,
+                    ),
+                    ...readPublicSignal(
+                      "TRANSFER",
+                      "ReceiverPCTNonce",
+                      signals,
+                    ),
+                  ]);
+            break;
+          }
+          case "PrivateMint": {
+            const tx = await getTransaction(log.transactionHash);
+            entry.from = tx.from;
+            entry.to = args.user;
+            entry.tokenId = 0n;
+
+            const signals = this.decodeOperationCall(tx.input).proof
+              .publicSignals;
+            entry.amount = this.decryptPCT([
+              ...readPublicSignal("MINT", "ReceiverPCT", signals),
+              ...readPublicSignal("MINT", "ReceiverPCTAuthKey", signals),
+              ...readPublicSignal("MINT", "ReceiverPCTNonce", signals),
+            ]);
+            break;
+          }
+          case "PrivateBurn": {
+            entry.from = args.user;
+            entry.to = BURN_USER.address as `0x${string}`;
+            entry.direction = "out";
+            entry.tokenId = 0n;
+
+            const tx = await getTransaction(log.transactionHash);
+            const signals = this.decodeOperationCall(tx.input).proof
+              .publicSignals;
+            entry.amount = this.decryptEGCTAmount(
+              readPublicSignal("BURN", "SenderVTBC1", signals),
+              readPublicSignal("BURN", "SenderVTBC2", signals),
+            );
+            break;
+          }
+          case "Deposit":
+          case "Withdraw": {
+            entry.from = args.user;
+            entry.to = args.user;
+            entry.direction = log.eventName === "Deposit" ? "in" : "out";
+            entry.tokenId = args.tokenId;
+            entry.dust = args.dust;
+
+            const { eERCAmount, tokenAmount } = this.convertConverterAmount(
+              log.eventName,
+              args.amount as bigint,
+              args.dust,
+              await getConverterDecimals(args.tokenId as bigint),
+            );
+            entry.amount = eERCAmount;
+            entry.tokenAmount = tokenAmount;
+            break;
+          }
+          case "PrivateMessage": {
+            const { messageFrom, messageTo, messageType, encryptedMsg } =
+              args.metadata as NonNullable<HistoryLog["args"]["metadata"]>;
+            entry.from = messageFrom;
+            entry.to = messageTo;
+            entry.direction = isUser(messageFrom) ? "out" : "in";
+
+            // messages are encrypted with the public key of the receiver
+            if (isUser(messageTo))
+              entry.message = {
+                decryptedMessage: await decryptMetadata(
+                  this.poseidon,
+                  formatKeyForCurve(this.decryptionKey),
+                  encryptedMsg,
+                ),
+                messageType,
+                messageFrom,
+                messageTo,
+              };
+            messages.push(entry);
+            continue;
+          }
+        }
+      } catch (error) {
+        entry.decryptError = `Failed to decrypt ${log.eventName}: ${error}`;
+      }
+
+      entries.push(entry);
     }
 
-    if (!wasm || !zkey) {
-      throw new Error(
-        `Missing ${!wasm ? "WASM" : "ZKey"} URL for ${operation} operation`,
+    for (const message of messages) {
+      const operation = entries.find(
+        (entry) => entry.transactionHash === message.transactionHash,
       );
+      if (!operation) {
+        entries.push(message);
+        continue;
+      }
+      operation.message = message.message;
+      if (message.decryptError) operation.decryptError ??= message.decryptError;
     }
 
-    let wasmPath = "";
-    let zkeyPath = "";
+    return entries.sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : Number(a.blockNumber - b.blockNumber),
+    );
+  }
 
-    // Check for Node.js environment
-    const isBrowser =
-      typeof window !== "undefined" && typeof window.document !== "undefined";
-    const isNode = !isBrowser;
+  /**
+   * decodes the eERC call with the argument names of the abi
+   * @param input transaction input
+   * @returns arguments of the call by name
+   */
+  private decodeOperationCall(input: `0x${string}`) {
+    const { functionName, args = [] } = decodeFunctionData({
+      abi: this.encryptedErcAbi,
+      data: input,
+    });
+    // overloads with a message have one more argument
+    const item = (this.encryptedErcAbi as Abi).find(
+      (item): item is AbiFunction =>
+        item.type === "function" &&
+        item.name === functionName &&
+        item.inputs.length === args.length,
+    );
 
-    if (isNode) {
-      // Check if file exists locally
-      const fs = await import("node:fs");
-      if (fs.existsSync(wasm) && fs.existsSync(zkey)) {
-        wasmPath = wasm;
-        zkeyPath = zkey;
-      }
-    }
+    return Object.fromEntries(
+      (item?.inputs ?? []).map((input, i) => [input.name, args[i]]),
+    ) as {
+      tokenId?: bigint;
+      proof: { publicSignals: readonly bigint[] };
+    };
+  }
 
-    if (!wasmPath || !zkeyPath) {
-      const absoluteWasmURL = wasm.startsWith("/")
-        ? new URL(wasm, import.meta.url)
-        : new URL(wasm);
+  /**
+   * function to decrypt the el gamal encrypted amount of a proof, e.g. the value to transfer
+   * @param c1 c1 point
+   * @param c2 c2 point
+   * @returns decrypted amount, -1n if it can not be recovered
+   */
+  private decryptEGCTAmount(c1: bigint[], c2: bigint[]): bigint {
+    const point = this.curve.elGamalDecryption(
+      formatKeyForCurve(this.decryptionKey),
+      { c1: c1 as Point, c2: c2 as Point },
+    );
+    return (
+      this.curve.discreteLog(
+        point,
+        this.bsgsMaxValue,
+        this.getBabyStepTable(),
+      ) ?? -1n
+    );
+  }
 
-      const absoluteZkeyURL = zkey.startsWith("/")
-        ? new URL(zkey, import.meta.url)
-        : new URL(zkey);
+  /**
+   * downloads the circuit artifacts ahead of the first proof
+   * @param operations operations to preload, defaults to all of them
+   * @param onProgress download progress callback
+   */
+  async preloadCircuits(
+    operations: ProofOperation[] = [
+      "REGISTER",
+      "MINT",
+      "WITHDRAW",
+      "TRANSFER",
+      "BURN",
+    ],
+    onProgress?: (progress: ArtifactProgress) => void,
+  ): Promise<void> {
+    await this.artifacts.preload(operations, onProgress);
+  }
 
-      wasmPath = absoluteWasmURL.toString();
-      zkeyPath = absoluteZkeyURL.toString();
-    }
+  /**
+   * runs the balance consuming operation after the previous operations of the account and token,
+   * the operation is proved again with the refetched balance if the contract rejects the proof
+   * because the balance changed in the meantime
+   * @param operation operation
+   * @param tokenAddress token address
+   * @param encryptedBalance encrypted balance passed by the caller
+   * @param decryptedBalance decrypted balance passed by the caller
+   * @param execute sends the operation with the balance
+   * @returns result of the operation
+   */
+  private enqueue<T>(
+    operation: EERCOperation,
+    tokenAddress: string | undefined,
+    encryptedBalance: bigint[],
+    decryptedBalance: bigint,
+    execute: (
+      encryptedBalance: bigint[],
+      decryptedBalance: bigint,
+    ) => Promise<T>,
+  ): Promise<T> {
+    const account = this.wallet.account?.address;
+    if (!account) return execute(encryptedBalance, decryptedBalance);
+
+    return this.queue.run(
+      {
+        operation,
+        account,
+        tokenAddress: tokenAddress as `0x${string}` | undefined,
+      },
+      async (context) => {
+        try {
+          // balance of the caller does not include the operations the queue waited for
+          let balance = context.waited
+            ? await this.fetchBalance(account, tokenAddress)
+            : { encrypted: encryptedBalance, decrypted: decryptedBalance };
+
+          for (let retries = 0; ; retries++) {
+            try {
+              const result = await execute(
+                balance.encrypted,
+                balance.decrypted,
+              );
+
+              // the next operation spends the balance after this one is mined
+              const { transactionHash, receipt } =
+                result as Partial<OperationResult>;
+              if (transactionHash && !receipt)
+                context.hold(
+                  this.client.waitForTransactionReceipt({
+                    hash: transactionHash,
+                  }),
+                );
+              return result;
+            } catch (e) {
+              if (
+                retries >= this.proofRetries ||
+                !(e instanceof EERCError) ||
+                e.code !== "INVALID_PROOF"
+              )
+                throw e;
+
+              // the proof is rejected for another reason if the balance did not change
+              const latest = await this.fetchBalance(account, tokenAddress);
+              if (latest.encrypted.every((v, i) => v === balance.encrypted[i]))
+                throw e;
+
+              logMessage(`Balance changed, proving ${operation} again`);
+              context.retry();
+              balance = latest;
+            }
+          }
+        } catch (e) {
+          throw toEERCError(e, operation);
+        }
+      },
+    );
+  }
+
+  /**
+   * fetches and decrypts the balance of the account
+   * @param account account address
+   * @param tokenAddress token address, undefined for the stand-alone balance
+   * @returns encrypted and decrypted balance
+   */
+  private async fetchBalance(account: `0x${string}`, tokenAddress?: string) {
+    const balance = (await this.client.readContract({
+      address: this.contractAddress,
+      abi: this.encryptedErcAbi,
+      functionName: tokenAddress ? "getBalanceFromTokenAddress" : "balanceOf",
+      args: [account, tokenAddress || 0n],
+    })) as bigint[];
+
+    const elGamalCipherText = balance[0] as unknown as EGCT;
+    const amountPCTs = balance[2] as unknown as AmountPCT[];
+    const balancePCT = balance[3] as unknown as bigint[];
+
+    return {
+      encrypted: [
+        elGamalCipherText.c1.x,
+        elGamalCipherText.c1.y,
+        elGamalCipherText.c2.x,
+        elGamalCipherText.c2.y,
+      ],
+      decrypted: this.calculateTotalBalance(
+        elGamalCipherText,
+        amountPCTs,
+        balancePCT,
+      ),
+    };
+  }
+
+  /**
+   * creates the progress reporter of a single operation call
+   * @param operation operation name
+   * @param tokenAddress token of the operation, if any
+   * @returns function that emits the stage, details are kept for the next stages
+   */
+  private trackOperation(
+    operation: EERCOperation,
+    tokenAddress?: `0x${string}`,
+  ): ProgressReporter {
+    const id = ++this.operationCount;
+    const details: ProgressDetails = {};
+
+    return (stage, update = {}) => {
+      Object.assign(details, update);
+      this.emit("progress", { id, operation, stage, tokenAddress, ...details });
+    };
+  }
+
+  /**
+   * announces the broadcast operation with the ciphertext the contract subtracts from the
+   * sender balance, so the balance can be tracked before the transaction is mined
+   * @param operation operation
+   * @param transactionHash transaction hash
+   * @param amount spent amount
+   * @param spent el gamal ciphertext of the spent amount
+   * @param tokenAddress token address
+   */
+  private emitPending(
+    operation: PendingOperation["operation"],
+    transactionHash: `0x${string}`,
+    amount: bigint,
+    spent: ElGamalCipherText,
+    tokenAddress?: string,
+  ) {
+    this.emit("pending", {
+      operation,
+      tokenAddress: tokenAddress as `0x${string}` | undefined,
+      transactionHash,
+      amount,
+      spentCiphertext: [...spent.c1, ...spent.c2],
+    });
+  }
 
+  private async generateProof(
+    input: CircuitInput,
+    operation: ProofOperation,
+    progress: ProgressReporter = () => {},
+  ): Promise<eERC_Proof> {
+    // remote provers only need the circuit inputs
+    const { wasm, zkey } = this.prover.remote
+      ? this.artifacts.getCircuit(operation)
+      : await this.artifacts.load(operation);
+
+    progress("proving");
     const now = performance.now();
-    const { proof: snarkProof, publicSignals } =
-      await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+    let result: ProveResult;
+    try {
+      result = await this.prover.prove({ operation, input, wasm, zkey });
+    } catch (e) {
+      throw new EERCProofError(
+        "PROOF_GENERATION_FAILED",
+        `Failed to generate ${operation} proof`,
+        { cause: e },
+      );
+    }
+
+    const proofTime = performance.now() - now;
+    logMessage(`Proof generation took ${proofTime.toFixed(2)}ms`);
+    progress("proved", { proofTime });
 
-    const rawCalldata = JSON.parse(
+    // catch circuit and contract version drift before the transaction reverts with InvalidProof
+    const verificationKey = await this.artifacts.loadVerificationKey(operation);
+    if (verificationKey) {
+      progress("verifying");
+      await verifyProof(operation, input, result, verificationKey);
+    }
+
+    const rawCalldata: [string[], string[][], string[], string[]] = JSON.parse(
       `[${await snarkjs.groth16.exportSolidityCallData(
-        snarkProof,
-        publicSignals,
+        result.proof,
+        result.publicSignals,
       )}]`,
     );
 
-    const end = performance.now();
-    logMessage(`Proof generation took ${(end - now).toFixed(2)}ms`);
-
     return {
       proofPoints: {
         a: rawCalldata[0],
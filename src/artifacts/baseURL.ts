@@ -0,0 +1,2 @@
+// url of the bundle, relative circuit urls are resolved against it
+export const ARTIFACTS_BASE_URL = import.meta.url;
@@ -0,0 +1,3 @@
+export * from "./manager";
+export * from "./stores";
+export * from "./types";
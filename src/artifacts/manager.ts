@@ -0,0 +1,243 @@
+import { sha256 } from "js-sha256";
+import { EERCError, EERCValidationError, logMessage } from "../helpers";
+import type { CircuitURL, CircuitURLs } from "../hooks/types";
+import type { ProofOperation, VerificationKey } from "../prover";
+import type {
+  ArtifactManagerOptions,
+  ArtifactProgress,
+  CircuitArtifacts,
+} from "./types";
+
+const CIRCUITS: Record<ProofOperation, keyof CircuitURLs> = {
+  REGISTER: "register",
+  MINT: "mint",
+  WITHDRAW: "withdraw",
+  TRANSFER: "transfer",
+  BURN: "burn",
+};
+
+/**
+ * downloads each circuit artifact once, validates it against the expected hash
+ * and keeps it in memory and optionally in a persistent store
+ */
+export class ArtifactManager {
+  private circuitURLs: CircuitURLs;
+  private options: ArtifactManagerOptions;
+  private cache = new Map<string, Promise<Uint8Array>>();
+
+  constructor(circuitURLs: CircuitURLs, options: ArtifactManagerOptions = {}) {
+    this.circuitURLs = circuitURLs;
+    this.options = options;
+  }
+
+  /**
+   * returns the urls of the circuit for the operation
+   * @param operation proof operation
+   * @returns circuit urls
+   */
+  getCircuit(operation: ProofOperation): CircuitURL {
+    const circuit = this.circuitURLs[CIRCUITS[operation]];
+    if (!circuit) {
+      throw new EERCValidationError("MISSING_CIRCUIT", "Invalid operation");
+    }
+
+    if (!circuit.wasm || !circuit.zkey) {
+      throw new EERCValidationError(
+        "MISSING_CIRCUIT",
+        `Missing ${!circuit.wasm ? "WASM" : "ZKey"} URL for ${operation} operation`,
+      );
+    }
+
+    return circuit;
+  }
+
+  /**
+   * loads the wasm and zkey of the circuit
+   * @param operation proof operation
+   * @param onProgress download progress callback
+   * @returns circuit artifacts
+   */
+  async load(
+    operation: ProofOperation,
+    onProgress?: (progress: ArtifactProgress) => void,
+  ): Promise<CircuitArtifacts> {
+    const circuit = this.getCircuit(operation);
+
+    const [wasm, zkey] = await Promise.all([
+      this.loadArtifact(circuit.wasm, circuit.wasmHash, (loaded, total) =>
+        onProgress?.({ operation, file: "wasm", loaded, total }),
+      ),
+      this.loadArtifact(circuit.zkey, circuit.zkeyHash, (loaded, total) =>
+        onProgress?.({ operation, file: "zkey", loaded, total }),
+      ),
+    ]);
+
+    return { wasm, zkey };
+  }
+
+  /**
+   * loads the verification key of the circuit
+   * @param operation proof operation
+   * @returns verification key, undefined if the circuit has none
+   */
+  async loadVerificationKey(
+    operation: ProofOperation,
+  ): Promise<VerificationKey | undefined> {
+    const { verificationKey } = this.getCircuit(operation);
+    if (!verificationKey) return undefined;
+    if (typeof verificationKey !== "string") return verificationKey;
+
+    const data = await this.loadArtifact(verificationKey, undefined, () => {});
+    try {
+      return JSON.parse(new TextDecoder().decode(data)) as VerificationKey;
+    } catch (e) {
+      throw new EERCError(
+        "ARTIFACT_LOAD_FAILED",
+        `Invalid verification key at ${verificationKey}`,
+        { cause: e },
+      );
+    }
+  }
+
+  /**
+   * loads the artifacts of the circuits ahead of the first proof
+   * @param operations proof operations
+   * @param onProgress download progress callback
+   */
+  async preload(
+    operations: ProofOperation[],
+    onProgress?: (progress: ArtifactProgress) => void,
+  ): Promise<void> {
+    await Promise.all(
+      operations.map((operation) => this.load(operation, onProgress)),
+    );
+  }
+
+  /**
+   * drops the artifacts kept in memory
+   */
+  clear() {
+    this.cache.clear();
+  }
+
+  private loadArtifact(
+    url: string,
+    hash: string | undefined,
+    onProgress: (loaded: number, total?: number) => void,
+  ): Promise<Uint8Array> {
+    const key = hash ? `${url}#${hash.toLowerCase()}` : url;
+
+    let artifact = this.cache.get(key);
+    if (!artifact) {
+      artifact = this.fetchArtifact(key, url, hash, onProgress);
+      // failed downloads are retried on the next call
+      artifact.catch(() => this.cache.delete(key));
+      this.cache.set(key, artifact);
+    }
+
+    return artifact;
+  }
+
+  private async fetchArtifact(
+    key: string,
+    url: string,
+    hash: string | undefined,
+    onProgress: (loaded: number, total?: number) => void,
+  ): Promise<Uint8Array> {
+    const { store } = this.options;
+
+    if (store) {
+      try {
+        const stored = await store.get(key);
+        if (stored && this.isValid(stored, hash)) {
+          onProgress(stored.length, stored.length);
+          return stored;
+        }
+      } catch (e) {
+        logMessage(`Failed to read cached artifact ${url}: ${e}`);
+      }
+    }
+
+    const data = await this.read(url, onProgress);
+    if (!this.isValid(data, hash)) {
+      throw new EERCValidationError(
+        "ARTIFACT_HASH_MISMATCH",
+        `Artifact ${url} does not match the expected hash`,
+      );
+    }
+
+    if (store) {
+      try {
+        await store.set(key, data);
+      } catch (e) {
+        logMessage(`Failed to cache artifact ${url}: ${e}`);
+      }
+    }
+
+    return data;
+  }
+
+  private isValid(data: Uint8Array, hash?: string) {
+    return !hash || sha256(data) === hash.toLowerCase().replace(/^0x/, "");
+  }
+
+  /**
+   * reads the artifact from the local file system in node, downloads it otherwise
+   */
+  private async read(
+    url: string,
+    onProgress: (loaded: number, total?: number) => void,
+  ): Promise<Uint8Array> {
+    const isBrowser =
+      typeof window !== "undefined" && typeof window.document !== "undefined";
+
+    if (!isBrowser) {
+      const fs = await import("node:fs");
+      if (fs.existsSync(url)) {
+        const data = new Uint8Array(await fs.promises.readFile(url));
+        onProgress(data.length, data.length);
+        return data;
+      }
+    }
+
+    const absoluteURL = url.startsWith("/")
+      ? new URL(url, this.options.baseURL ?? globalThis.location?.href)
+      : new URL(url);
+
+    const response = await fetch(absoluteURL.toString());
+    if (!response.ok) {
+      throw new EERCError(
+        "ARTIFACT_LOAD_FAILED",
+        `Failed to download ${url}: ${response.status}`,
+      );
+    }
+
+    const length = response.headers.get("content-length");
+    const total = length ? Number(length) : undefined;
+
+    if (!response.body) {
+      const data = new Uint8Array(await response.arrayBuffer());
+      onProgress(data.length, total);
+      return data;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.length;
+      onProgress(loaded, total);
+    }
+
+    const data = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  }
+}
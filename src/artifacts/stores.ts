@@ -0,0 +1,93 @@
+import { sha256 } from "js-sha256";
+import { logMessage } from "../helpers";
+import type { ArtifactStore } from "./types";
+
+/**
+ * stores the artifacts in IndexedDB, for browsers
+ */
+export class IndexedDBArtifactStore implements ArtifactStore {
+  private dbName: string;
+  private storeName: string;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(dbName = "eerc-artifacts", storeName = "artifacts") {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(this.storeName, "readonly")
+        .objectStore(this.storeName)
+        .get(key);
+      request.onsuccess = () =>
+        resolve(request.result ? new Uint8Array(request.result) : undefined);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(this.storeName, "readwrite")
+        .objectStore(this.storeName)
+        .put(data, key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () =>
+          request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * stores the artifacts in a cache directory, for node
+ */
+export class FileSystemArtifactStore implements ArtifactStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const fs = await import("node:fs/promises");
+    try {
+      return new Uint8Array(await fs.readFile(await this.path(key)));
+    } catch (e) {
+      if ((e as { code?: string }).code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    const fs = await import("node:fs/promises");
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // write to a temporary file first so a crash never leaves a partial artifact
+    const path = await this.path(key);
+    const tmp = `${path}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, path);
+    logMessage(`Cached artifact at ${path}`);
+  }
+
+  private async path(key: string) {
+    const { join } = await import("node:path");
+    return join(this.directory, `${sha256(key)}.bin`);
+  }
+}
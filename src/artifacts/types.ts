@@ -0,0 +1,29 @@
+import type { ProofOperation } from "../prover";
+
+/**
+ * persistent storage of the downloaded circuit artifacts
+ */
+export interface ArtifactStore {
+  get(key: string): Promise<Uint8Array | undefined>;
+  set(key: string, data: Uint8Array): Promise<void>;
+}
+
+export type ArtifactProgress = {
+  operation: ProofOperation;
+  file: "wasm" | "zkey";
+  loaded: number;
+  // undefined if the server does not report the content length
+  total?: number;
+};
+
+export type ArtifactManagerOptions = {
+  // persists the artifacts across sessions, they are always kept in memory
+  store?: ArtifactStore;
+  // base url of the artifact urls starting with "/"
+  baseURL?: string;
+};
+
+export type CircuitArtifacts = {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+};
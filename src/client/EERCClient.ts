@@ -0,0 +1,1096 @@
+import { type Abi, type PublicClient, type WalletClient, erc20Abi } from "viem";
+import { EERC } from "../EERC";
+import type { AmountPCT, EGCT, Point } from "../crypto/types";
+import {
+  EERCValidationError,
+  type Keystore,
+  type LogScannerOptions,
+  type QueuedOperation,
+  formatAmount,
+  logMessage,
+} from "../helpers";
+import type {
+  ApproveAndDepositOptions,
+  BatchTransferRecipient,
+  CircuitURLs,
+  DepositOptions,
+  EERCOptions,
+  HistoryOptions,
+  OperationProgress,
+  PendingOperation,
+  PortfolioToken,
+  RegisterOptions,
+} from "../hooks/types";
+import { ENCRYPTED_ERC_ABI } from "../utils";
+import type {
+  EERCBalanceState,
+  EERCClientConfig,
+  EERCClientListener,
+  EERCClientState,
+  EERCPortfolioState,
+} from "./types";
+
+export const INITIAL_CLIENT_STATE: EERCClientState = {
+  isInitialized: false,
+  isConverter: false,
+  auditorPublicKey: [],
+  name: "",
+  symbol: "",
+  registrarAddress: "",
+  isRegistered: false,
+  isAllDataFetched: false,
+  owner: "",
+  hasBeenAuditor: {
+    isChecking: false,
+    isAuditor: false,
+  },
+  isAuditorKeySet: false,
+  areYouAuditor: false,
+  publicKey: [],
+  isDecryptionKeySet: false,
+};
+
+export const INITIAL_BALANCE_STATE: EERCBalanceState = {
+  decrypted: 0n,
+  parsed: "",
+  encrypted: [],
+  isFetched: false,
+  progress: null,
+  pendingBalance: 0n,
+  pendingEncrypted: [],
+  pendingOperations: [],
+  queuedOperations: [],
+};
+
+export const INITIAL_PORTFOLIO_STATE: EERCPortfolioState = {
+  tokens: [],
+  isFetched: false,
+};
+
+type PendingEntry = PendingOperation & {
+  // block of the receipt, the entry is dropped once the balance is fetched at or after it
+  blockNumber?: bigint;
+};
+
+type TrackedBalance = {
+  tokenAddress?: `0x${string}`;
+  state: EERCBalanceState;
+  listeners: Set<EERCClientListener>;
+  // block the balance was fetched at
+  blockNumber?: bigint;
+  // incremented by every refetch, results of overtaken refetches are discarded
+  sequence: number;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * compares two state values, arrays and plain objects are compared by their values
+ * @param a previous value
+ * @param b next value
+ * @returns boolean
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => isSameValue(v, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => isSameValue(a[key], b[key]))
+    );
+  }
+  return Object.is(a, b);
+};
+
+/**
+ * checks if the updates change any value of the state
+ * @param state current state
+ * @param updates updates
+ * @returns boolean
+ */
+const hasChanges = <T extends object>(state: T, updates: Partial<T>) =>
+  (Object.keys(updates) as (keyof T)[]).some(
+    (key) => !isSameValue(state[key], updates[key]),
+  );
+
+// blocks checked for the auditor changes if the start block of the log scanner is not configured
+const AUDITOR_CHECK_BLOCKS = 1000n;
+
+const balanceKey = (tokenAddress?: string) => tokenAddress?.toLowerCase() ?? "";
+
+const isKeySet = (key: bigint[]) =>
+  key.length > 0 && key.every((value) => value !== 0n);
+
+/**
+ * framework agnostic store of the eERC state, keeps the registration, auditor and
+ * per token balances in sync with the chain on every block
+ *
+ * snapshots are immutable and only replaced when a value changes, so `subscribe` and
+ * `getSnapshot` can be passed to react's `useSyncExternalStore` or wrapped by any store
+ */
+export class EERCClient {
+  private client: PublicClient;
+  private wallet: WalletClient;
+  private contractAddress: `0x${string}`;
+  private circuitURLs: CircuitURLs;
+  private decryptionKey?: string;
+  private options?: EERCOptions;
+  private pollingInterval?: number;
+
+  private state: EERCClientState = INITIAL_CLIENT_STATE;
+  private listeners = new Set<EERCClientListener>();
+  private balances = new Map<string, TrackedBalance>();
+  // operations that are broadcast but not included in the fetched balance, by balance key
+  private pending = new Map<string, PendingEntry[]>();
+  private queue: QueuedOperation[] = [];
+  private portfolio = {
+    state: INITIAL_PORTFOLIO_STATE,
+    listeners: new Set<EERCClientListener>(),
+  };
+
+  private active = false;
+  private starting?: Promise<void>;
+  private refreshing?: Promise<void>;
+  private registeredKey?: Point;
+  private cleanups: (() => void)[] = [];
+
+  constructor(config: EERCClientConfig) {
+    this.client = config.client;
+    this.wallet = config.wallet;
+    this.contractAddress = config.contractAddress;
+    this.circuitURLs = config.circuitURLs;
+    this.decryptionKey = config.decryptionKey;
+    this.options = config.options;
+    this.pollingInterval = config.pollingInterval;
+  }
+
+  /**
+   * sdk instance, undefined until the client is started
+   */
+  get eerc(): EERC | undefined {
+    return this.state.eerc;
+  }
+
+  /**
+   * subscribes to the client state
+   * @param listener called after every state change
+   * @returns function that removes the listener
+   */
+  subscribe = (listener: EERCClientListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * returns the current state, the same object is returned until the state changes
+   * @returns client state
+   */
+  getSnapshot = (): EERCClientState => this.state;
+
+  /**
+   * subscribes to the balance of the token, the balance is fetched on every block while it has listeners
+   * @param tokenAddress token address, undefined for the stand-alone balance
+   * @param listener called after every balance change
+   * @returns function that removes the listener
+   */
+  subscribeBalance(
+    tokenAddress: `0x${string}` | undefined,
+    listener: EERCClientListener,
+  ): () => void {
+    const key = balanceKey(tokenAddress);
+    let balance = this.balances.get(key);
+    if (!balance) {
+      balance = {
+        tokenAddress,
+        state: {
+          ...INITIAL_BALANCE_STATE,
+          queuedOperations: this.queue.filter(
+            (operation) => balanceKey(operation.tokenAddress) === key,
+          ),
+        },
+        listeners: new Set(),
+        sequence: 0,
+      };
+      this.balances.set(key, balance);
+      this.refreshBalance(tokenAddress);
+    }
+    balance.listeners.add(listener);
+
+    return () => {
+      const tracked = this.balances.get(key);
+      tracked?.listeners.delete(listener);
+      if (tracked && !tracked.listeners.size) this.balances.delete(key);
+    };
+  }
+
+  /**
+   * returns the balance of the token, the same object is returned until the balance changes
+   * @param tokenAddress token address, undefined for the stand-alone balance
+   * @returns balance state
+   */
+  getBalanceSnapshot(tokenAddress?: `0x${string}`): EERCBalanceState {
+    return (
+      this.balances.get(balanceKey(tokenAddress))?.state ??
+      INITIAL_BALANCE_STATE
+    );
+  }
+
+  /**
+   * subscribes to the portfolio of a converter contract, it is fetched on every block while it has listeners
+   * @param listener called after every portfolio change
+   * @returns function that removes the listener
+   */
+  subscribePortfolio(listener: EERCClientListener): () => void {
+    this.portfolio.listeners.add(listener);
+    if (this.portfolio.listeners.size === 1) this.refreshPortfolio();
+
+    return () => {
+      this.portfolio.listeners.delete(listener);
+      if (!this.portfolio.listeners.size)
+        this.portfolio.state = INITIAL_PORTFOLIO_STATE;
+    };
+  }
+
+  /**
+   * returns the portfolio, the same object is returned until the portfolio changes
+   * @returns portfolio state
+   */
+  getPortfolioSnapshot(): EERCPortfolioState {
+    return this.portfolio.state;
+  }
+
+  /**
+   * fetches the contract data, initializes the sdk and starts watching the blocks
+   */
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.active = true;
+      this.starting = this.initialize();
+    }
+    return this.starting;
+  }
+
+  /**
+   * stops watching the blocks and the sdk events, the state is kept
+   */
+  stop() {
+    this.active = false;
+    this.starting = undefined;
+    for (const cleanup of this.cleanups) cleanup();
+    this.cleanups = [];
+  }
+
+  /**
+   * refetches the registration status and the auditor of the contract
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchUserAndAuditor().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * refetches and decrypts the balance of the token
+   * @param tokenAddress token address, undefined for the stand-alone balance
+   */
+  async refreshBalance(tokenAddress?: `0x${string}`): Promise<void> {
+    const key = balanceKey(tokenAddress);
+    const tracked = this.balances.get(key);
+    const eerc = this.state.eerc;
+    const address = this.wallet?.account?.address;
+    if (!tracked || !eerc || !address) return;
+
+    const sequence = ++tracked.sequence;
+    // a refetch that started later or read a later block overtakes this one
+    const isOvertaken = (blockNumber: bigint) =>
+      this.balances.get(key) !== tracked ||
+      tracked.sequence !== sequence ||
+      (tracked.blockNumber !== undefined && blockNumber < tracked.blockNumber);
+
+    try {
+      // decimals of the underlying token are fetched once
+      let { tokenDecimals } = this.getBalanceSnapshot(tokenAddress);
+      if (tokenAddress && tokenDecimals === undefined) {
+        tokenDecimals = await this.client.readContract({
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "decimals",
+        });
+      }
+
+      // the balance is read at a known block to reconcile it with the pending operations
+      const blockNumber = await this.client.getBlockNumber();
+      const [data] = await Promise.all([
+        this.client.readContract({
+          address: this.contractAddress,
+          abi: ENCRYPTED_ERC_ABI as Abi,
+          functionName: tokenAddress
+            ? "getBalanceFromTokenAddress"
+            : "balanceOf",
+          args: [address, tokenAddress || 0n],
+          blockNumber,
+        }) as Promise<bigint[]>,
+        this.fetchPendingReceipts(key),
+      ]);
+      if (isOvertaken(blockNumber)) return;
+
+      if (!data || !eerc.isDecryptionKeySet) {
+        this.setBalance(key, { tokenDecimals });
+        return;
+      }
+
+      const elGamalCipherText = data[0] as unknown as EGCT;
+      const amountPCTs = data[2] as unknown as AmountPCT[];
+      const balancePCT = data[3] as unknown as bigint[];
+
+      const decrypted = eerc.calculateTotalBalance(
+        elGamalCipherText,
+        amountPCTs,
+        balancePCT,
+      );
+
+      const encrypted = [
+        elGamalCipherText.c1.x,
+        elGamalCipherText.c1.y,
+        elGamalCipherText.c2.x,
+        elGamalCipherText.c2.y,
+      ];
+      // operations mined up to the block are included in the fetched balance
+      tracked.blockNumber = blockNumber;
+      this.pending.set(
+        key,
+        (this.pending.get(key) ?? []).filter(
+          (entry) => !this.isIncluded(tracked, entry),
+        ),
+      );
+
+      const { decimals } = this.state;
+      this.setBalance(key, {
+        tokenDecimals,
+        decrypted,
+        // unrecoverable balance (-1n) is not formatted
+        parsed:
+          decimals === undefined || decrypted < 0n
+            ? decrypted.toString()
+            : formatAmount(decrypted, decimals),
+        encrypted,
+        isFetched: true,
+        ...this.applyPending(key, encrypted, decrypted),
+      });
+    } catch (error) {
+      logMessage(`Failed to fetch balance: ${error}`);
+    }
+  }
+
+  /**
+   * refetches the tokens of the converter contract and decrypts their balances
+   */
+  async refreshPortfolio(): Promise<void> {
+    const eerc = this.state.eerc;
+    if (
+      !this.portfolio.listeners.size ||
+      !eerc ||
+      !this.state.isConverter ||
+      !eerc.isDecryptionKeySet
+    )
+      return;
+
+    try {
+      const tokens: PortfolioToken[] = await eerc.getPortfolio();
+      this.setPortfolio({ tokens, isFetched: true });
+    } catch (error) {
+      logMessage(`Failed to fetch portfolio: ${error}`);
+    }
+  }
+
+  /**
+   * checks if the user has been the auditor of the contract, the logs are scanned from the
+   * configured start block (e.g. the deployment block) or in the last 1000 blocks without it
+   */
+  async checkIsAuditor(): Promise<void> {
+    const eerc = this.state.eerc;
+    if (!eerc) return;
+
+    try {
+      this.setState({ hasBeenAuditor: { isChecking: true, isAuditor: false } });
+      const isAuditor = await eerc.hasBeenAuditor(
+        await this.auditorCheckRange(),
+      );
+      this.setState({ hasBeenAuditor: { isChecking: false, isAuditor } });
+    } catch (error) {
+      this.setState({
+        hasBeenAuditor: { ...this.state.hasBeenAuditor, isChecking: false },
+      });
+      logMessage(`Failed to check is auditor: ${error}`);
+    }
+  }
+
+  /**
+   * generates the decryption key by signing the key derivation message
+   * @returns decryption key
+   */
+  async generateDecryptionKey(): Promise<string> {
+    const key = await this.requireEERC().generateDecryptionKey();
+    await this.syncKey();
+    return key;
+  }
+
+  /**
+   * finds the key derivation mode the user registered with and sets its key
+   * @returns matching mode
+   */
+  async detectKeyDerivation() {
+    const match = await this.requireEERC().detectKeyDerivation();
+    await this.syncKey();
+    return match;
+  }
+
+  /**
+   * unlocks the decryption key from a keystore
+   * @param keystore keystore object or its json
+   * @param password keystore password, the wallet signs the keystore message if not given
+   * @returns decryption key
+   */
+  async unlockKeystore(
+    keystore: Keystore | string,
+    password?: string,
+  ): Promise<string> {
+    const key = await this.requireEERC().unlockKeystore(keystore, password);
+    await this.syncKey();
+    return key;
+  }
+
+  /**
+   * compares the decryption key with the registered public key
+   * @returns key status
+   */
+  async verifyKey() {
+    const status = await this.requireEERC().verifyKey();
+    this.setState({ keyStatus: status });
+    return status;
+  }
+
+  /**
+   * registers the user to the contract
+   * @param options key to register
+   * @returns key and transaction hash
+   */
+  async register(options?: RegisterOptions) {
+    const result = await this.requireEERC().register(options);
+    await this.syncKey();
+    return result;
+  }
+
+  /**
+   * mints encrypted tokens to the recipient
+   * @param recipient recipient address
+   * @param amount amount to mint
+   * @param message message to encrypt
+   * @returns operation result
+   */
+  privateMint(recipient: `0x${string}`, amount: bigint, message?: string) {
+    const eerc = this.requireEERC();
+    return eerc.privateMint(
+      recipient,
+      amount,
+      this.requireAuditorKey() as Point,
+      message,
+    );
+  }
+
+  /**
+   * burns encrypted tokens from the stand-alone balance
+   * @param amount amount to burn
+   * @param message message to encrypt
+   * @returns operation result
+   */
+  privateBurn(amount: bigint, message?: string) {
+    const eerc = this.requireEERC();
+    const balance = this.requireBalance(undefined, amount);
+    return eerc.privateBurn(
+      amount,
+      balance.encrypted,
+      balance.decrypted,
+      this.requireAuditorKey(),
+      message,
+    );
+  }
+
+  /**
+   * transfers encrypted tokens to the recipient
+   * @param to recipient address
+   * @param amount amount to transfer
+   * @param tokenAddress token address, undefined for the stand-alone balance
+   * @param message message to encrypt
+   * @returns operation result with the encrypted amounts
+   */
+  transfer(
+    to: string,
+    amount: bigint,
+    tokenAddress?: `0x${string}`,
+    message?: string,
+  ) {
+    const eerc = this.requireEERC();
+    const balance = this.requireBalance(tokenAddress, amount);
+    return eerc.transfer(
+      to,
+      amount,
+      balance.encrypted,
+      balance.decrypted,
+      this.requireAuditorKey(),
+      tokenAddress,
+      message,
+    );
+  }
+
+  /**
+   * transfers encrypted tokens to multiple recipients, one transaction per recipient
+   * @param recipients recipients with their amounts and messages
+   * @param tokenAddress token address
+   * @returns result of every recipient, remaining recipients can be resumed once the balance is refetched
+   */
+  batchTransfer(
+    recipients: BatchTransferRecipient[],
+    tokenAddress?: `0x${string}`,
+  ) {
+    const eerc = this.requireEERC();
+    const total = recipients.reduce((acc, { amount }) => acc + amount, 0n);
+    const balance = this.requireBalance(tokenAddress, total);
+    return eerc.batchTransfer(
+      recipients,
+      balance.encrypted,
+      balance.decrypted,
+      this.requireAuditorKey(),
+      tokenAddress,
+    );
+  }
+
+  /**
+   * deposits erc20 tokens to the encrypted balance
+   * @param amount amount to deposit
+   * @param tokenAddress token address
+   * @param message message to encrypt
+   * @param options dust handling
+   * @returns operation result with the credited amount and the dust
+   */
+  deposit(
+    amount: bigint,
+    tokenAddress: `0x${string}`,
+    message?: string,
+    options?: DepositOptions,
+  ) {
+    const eerc = this.requireEERC();
+    if (!this.state.decimals)
+      throw new EERCValidationError("NOT_INITIALIZED", "Decimals not set");
+    this.requireAuditorKey();
+    return eerc.deposit(
+      amount,
+      tokenAddress,
+      this.state.decimals,
+      message,
+      options,
+    );
+  }
+
+  /**
+   * approves the token if the allowance does not cover the amount and deposits it
+   * @param amount amount to deposit
+   * @param tokenAddress token address
+   * @param message message to encrypt
+   * @param options approval amount, permit and dust handling
+   * @returns operation result with the approval transaction hash
+   */
+  approveAndDeposit(
+    amount: bigint,
+    tokenAddress: `0x${string}`,
+    message?: string,
+    options?: ApproveAndDepositOptions,
+  ) {
+    const eerc = this.requireEERC();
+    if (!this.state.decimals)
+      throw new EERCValidationError("NOT_INITIALIZED", "Decimals not set");
+    this.requireAuditorKey();
+    return eerc.approveAndDeposit(
+      amount,
+      tokenAddress,
+      this.state.decimals,
+      message,
+      options,
+    );
+  }
+
+  /**
+   * withdraws erc20 tokens from the encrypted balance
+   * @param amount amount to withdraw
+   * @param tokenAddress token address
+   * @param message message to encrypt
+   * @returns operation result
+   */
+  withdraw(amount: bigint, tokenAddress: `0x${string}`, message?: string) {
+    const eerc = this.requireEERC();
+    const balance = this.requireBalance(tokenAddress, amount);
+    return eerc.withdraw(
+      amount,
+      balance.encrypted,
+      balance.decrypted,
+      this.requireAuditorKey(),
+      tokenAddress,
+      message,
+    );
+  }
+
+  /**
+   * fetches a page of the transaction history of the user
+   * @param options block range, token and number of entries
+   * @returns history page, latest first
+   */
+  getHistory(options?: HistoryOptions) {
+    return this.requireEERC().getHistory(options);
+  }
+
+  /**
+   * returns the block range of the auditor check, scanning from genesis on every init
+   * would take thousands of getLogs calls
+   * @returns log scanner options, undefined if the start block is configured
+   */
+  private async auditorCheckRange(): Promise<LogScannerOptions | undefined> {
+    if (this.options?.logScanner?.fromBlock !== undefined) return undefined;
+
+    const toBlock = await this.client.getBlockNumber();
+    logMessage(
+      `Log scanner start block is not set, checking the auditor in the last ${AUDITOR_CHECK_BLOCKS} blocks`,
+    );
+    return {
+      fromBlock:
+        toBlock > AUDITOR_CHECK_BLOCKS ? toBlock - AUDITOR_CHECK_BLOCKS : 0n,
+      toBlock,
+    };
+  }
+
+  /**
+   * fetches the contract data, creates the sdk and watches the blocks
+   */
+  private async initialize() {
+    await this.fetchContractData();
+    if (!this.active) return;
+
+    const address = this.wallet?.account?.address;
+    if (!address || !this.state.registrarAddress) return;
+
+    try {
+      if (!this.decryptionKey) {
+        logMessage("Decryption key is not set");
+      }
+
+      const eerc = new EERC(
+        this.client,
+        this.wallet,
+        this.contractAddress,
+        this.state.registrarAddress as `0x${string}`,
+        this.state.isConverter,
+        this.circuitURLs,
+        this.decryptionKey,
+        this.options,
+      );
+
+      this.setState({
+        eerc,
+        isInitialized: true,
+        publicKey: eerc.publicKey,
+        isDecryptionKeySet: eerc.isDecryptionKeySet,
+      });
+      this.cleanups.push(
+        eerc.on("progress", (progress) => this.onProgress(progress)),
+        eerc.on("pending", (operation) => this.onPending(operation)),
+        eerc.on("queue", (operations) => this.onQueue(operations)),
+      );
+    } catch (error) {
+      logMessage(`Failed to initialize EERC: ${error}`);
+      return;
+    }
+
+    this.cleanups.push(
+      this.client.watchBlockNumber({
+        onBlockNumber: () => this.onBlock(),
+        pollingInterval: this.pollingInterval,
+      }),
+    );
+
+    await Promise.all([
+      this.refresh(),
+      this.checkIsAuditor(),
+      this.refreshTracked(),
+    ]);
+  }
+
+  /**
+   * fetches name, symbol, registrar address, converter mode, owner and decimals of the contract
+   */
+  private async fetchContractData() {
+    const read = (functionName: string) =>
+      this.client.readContract({
+        address: this.contractAddress,
+        abi: ENCRYPTED_ERC_ABI as Abi,
+        functionName,
+      });
+
+    const [name, symbol, registrar, isConverter, owner, decimals] =
+      await Promise.allSettled([
+        read("name"),
+        read("symbol"),
+        read("registrar"),
+        read("isConverter"),
+        read("owner"),
+        read("decimals"),
+      ]);
+
+    const value = <T>(result: PromiseSettledResult<unknown>, fallback: T) =>
+      result.status === "fulfilled" ? (result.value as T) : fallback;
+
+    this.setState({
+      name: value(name, ""),
+      symbol: value(symbol, ""),
+      registrarAddress: value(registrar, ""),
+      isConverter: value(isConverter, false),
+      owner: value(owner, ""),
+      decimals: value<bigint | undefined>(decimals, undefined),
+    });
+  }
+
+  /**
+   * fetches the registered public key of the user, the auditor public key and the auditor address
+   */
+  private async fetchUserAndAuditor() {
+    const eerc = this.state.eerc;
+    const address = this.wallet?.account?.address;
+    if (!eerc || !address) return;
+
+    const read = (functionName: string) =>
+      this.client.readContract({
+        address: this.contractAddress,
+        abi: ENCRYPTED_ERC_ABI as Abi,
+        functionName,
+      });
+
+    try {
+      const [userPublicKey, auditorPublicKey, auditorAddress] =
+        await Promise.all([
+          eerc.fetchPublicKey(address),
+          read("auditorPublicKey"),
+          read("auditor"),
+        ]);
+
+      this.setState({
+        isRegistered: !(userPublicKey[0] === 0n && userPublicKey[1] === 0n),
+        auditorPublicKey: auditorPublicKey as bigint[],
+        auditorAddress: auditorAddress as `0x${string}`,
+        isAllDataFetched: true,
+      });
+
+      // verify the key on init and whenever the registered public key changes
+      if (!isSameValue(this.registeredKey, userPublicKey)) {
+        this.registeredKey = userPublicKey;
+        await this.verifyKey();
+      }
+    } catch (error) {
+      logMessage(`Failed to fetch user and auditor: ${error}`);
+    }
+  }
+
+  /**
+   * refetches the state and the tracked balances on every block
+   */
+  private async onBlock() {
+    if (!this.active) return;
+    await Promise.all([this.refresh(), this.refreshTracked()]);
+  }
+
+  /**
+   * reports the operation progress to the balance of its token
+   * operations without a token (e.g. messages) are reported to every balance
+   * @param progress operation progress
+   */
+  private onProgress(progress: OperationProgress) {
+    for (const [key, balance] of this.balances) {
+      if (
+        progress.tokenAddress &&
+        progress.tokenAddress.toLowerCase() !==
+          balance.tokenAddress?.toLowerCase()
+      )
+        continue;
+      this.setBalance(key, { progress });
+    }
+  }
+
+  /**
+   * reports the queued operations to the balance of their token
+   * @param operations queued operations of the sdk
+   */
+  private onQueue(operations: QueuedOperation[]) {
+    this.queue = operations;
+    for (const key of this.balances.keys()) {
+      this.setBalance(key, {
+        queuedOperations: operations.filter(
+          (operation) => balanceKey(operation.tokenAddress) === key,
+        ),
+      });
+    }
+  }
+
+  /**
+   * adds the broadcast operation to the ledger of its token and waits for its receipt,
+   * the operation is dropped once the balance is refetched after the receipt or rolled back
+   * if the transaction fails
+   * @param operation pending operation
+   */
+  private async onPending(operation: PendingOperation) {
+    const key = balanceKey(operation.tokenAddress);
+    const entry: PendingEntry = { ...operation };
+    this.pending.set(key, [...(this.pending.get(key) ?? []), entry]);
+    this.updatePending(key);
+
+    try {
+      const receipt = await this.client.waitForTransactionReceipt({
+        hash: operation.transactionHash,
+      });
+      if (receipt.status === "reverted")
+        throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+
+      entry.blockNumber = receipt.blockNumber;
+      if (this.balances.has(key)) {
+        // the balance fetched at or after the receipt block already includes the operation
+        this.updatePending(key);
+        await this.refreshBalance(operation.tokenAddress);
+        return;
+      }
+    } catch (error) {
+      logMessage(`Rolling back pending ${operation.operation}: ${error}`);
+    }
+
+    // failed or untracked operations are dropped without a refetch
+    this.pending.set(
+      key,
+      (this.pending.get(key) ?? []).filter((e) => e !== entry),
+    );
+    this.updatePending(key);
+  }
+
+  /**
+   * recomputes the pending balance of the token from its fetched balance
+   * @param key balance key
+   */
+  private updatePending(key: string) {
+    const { encrypted, decrypted } =
+      this.balances.get(key)?.state ?? INITIAL_BALANCE_STATE;
+    this.setBalance(key, this.applyPending(key, encrypted, decrypted));
+  }
+
+  /**
+   * subtracts the pending operations of the token from the balance, the ciphertext is
+   * computed homomorphically the same way as the contract does
+   * @param key balance key
+   * @param encrypted fetched encrypted balance
+   * @param decrypted fetched decrypted balance
+   * @returns pending balance updates
+   */
+  private applyPending(
+    key: string,
+    encrypted: bigint[],
+    decrypted: bigint,
+  ): Pick<
+    EERCBalanceState,
+    "pendingBalance" | "pendingEncrypted" | "pendingOperations"
+  > {
+    const tracked = this.balances.get(key);
+    const entries = (this.pending.get(key) ?? []).filter(
+      (entry) => !tracked || !this.isIncluded(tracked, entry),
+    );
+    const curve = this.state.eerc?.curve;
+
+    let pendingEncrypted = encrypted;
+    let pendingBalance = decrypted;
+    for (const { amount, spentCiphertext } of entries) {
+      if (curve && pendingEncrypted.length)
+        pendingEncrypted = [
+          ...curve.subPoints(
+            pendingEncrypted.slice(0, 2) as Point,
+            spentCiphertext.slice(0, 2) as Point,
+          ),
+          ...curve.subPoints(
+            pendingEncrypted.slice(2, 4) as Point,
+            spentCiphertext.slice(2, 4) as Point,
+          ),
+        ];
+      pendingBalance -= amount;
+    }
+
+    return {
+      pendingBalance,
+      pendingEncrypted,
+      pendingOperations: entries.map(
+        ({ blockNumber, ...operation }) => operation,
+      ),
+    };
+  }
+
+  /**
+   * checks if the operation is mined at or before the block the balance was fetched at
+   * @param balance tracked balance
+   * @param entry pending entry
+   * @returns boolean
+   */
+  private isIncluded(balance: TrackedBalance, entry: PendingEntry) {
+    return (
+      entry.blockNumber !== undefined &&
+      balance.blockNumber !== undefined &&
+      entry.blockNumber <= balance.blockNumber
+    );
+  }
+
+  /**
+   * looks up the receipts of the pending operations of the token that are not confirmed yet,
+   * a block poll can refetch the balance before `waitForTransactionReceipt` resolves
+   * @param key balance key
+   */
+  private async fetchPendingReceipts(key: string) {
+    const unconfirmed = (this.pending.get(key) ?? []).filter(
+      (entry) => entry.blockNumber === undefined,
+    );
+    await Promise.all(
+      unconfirmed.map(async (entry) => {
+        try {
+          const receipt = await this.client.getTransactionReceipt({
+            hash: entry.transactionHash,
+          });
+          entry.blockNumber = receipt.blockNumber;
+        } catch {
+          // not mined yet
+        }
+      }),
+    );
+  }
+
+  /**
+   * copies the key of the sdk into the state and decrypts the balances with it
+   */
+  private async syncKey() {
+    const eerc = this.requireEERC();
+    this.setState({
+      publicKey: eerc.publicKey,
+      isDecryptionKeySet: eerc.isDecryptionKeySet,
+      keyStatus: eerc.keyStatus,
+    });
+    await this.refreshTracked();
+  }
+
+  /**
+   * refetches the balances and the portfolio that have listeners
+   */
+  private async refreshTracked() {
+    await Promise.all([
+      ...[...this.balances.values()].map(({ tokenAddress }) =>
+        this.refreshBalance(tokenAddress),
+      ),
+      this.refreshPortfolio(),
+    ]);
+  }
+
+  /**
+   * returns the sdk or throws if the client is not started yet
+   */
+  private requireEERC(): EERC {
+    if (!this.state.eerc)
+      throw new EERCValidationError("NOT_INITIALIZED", "EERC not initialized");
+    return this.state.eerc;
+  }
+
+  /**
+   * returns the auditor public key or throws if the auditor is not set
+   */
+  private requireAuditorKey(): bigint[] {
+    if (!this.state.isAuditorKeySet)
+      throw new EERCValidationError(
+        "AUDITOR_NOT_SET",
+        "Auditor public key is not set",
+      );
+    return this.state.auditorPublicKey;
+  }
+
+  /**
+   * returns the balance after the pending operations of the token or throws if it does not cover the amount
+   * @param tokenAddress token address
+   * @param amount amount to spend
+   */
+  private requireBalance(
+    tokenAddress: `0x${string}` | undefined,
+    amount: bigint,
+  ): { encrypted: bigint[]; decrypted: bigint } {
+    const balance = this.getBalanceSnapshot(tokenAddress);
+    if (!balance.encrypted.length)
+      throw new EERCValidationError(
+        "NOT_INITIALIZED",
+        "Balance is not fetched",
+      );
+    if (amount <= 0n)
+      throw new EERCValidationError("INVALID_AMOUNT", "Invalid amount");
+    if (balance.pendingBalance < amount)
+      throw new EERCValidationError(
+        "INSUFFICIENT_BALANCE",
+        "Insufficient balance",
+      );
+    return {
+      encrypted: balance.pendingEncrypted,
+      decrypted: balance.pendingBalance,
+    };
+  }
+
+  /**
+   * merges the updates into a new snapshot and notifies the listeners if anything changed
+   * @param updates state updates
+   */
+  private setState(updates: Partial<EERCClientState>) {
+    const next = { ...this.state, ...updates };
+    next.isAuditorKeySet = isKeySet(next.auditorPublicKey);
+    next.areYouAuditor =
+      next.isAuditorKeySet &&
+      next.publicKey.length > 0 &&
+      isSameValue(next.auditorPublicKey, next.publicKey);
+
+    if (!hasChanges(this.state, next)) return;
+    this.state = next;
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  /**
+   * replaces the portfolio snapshot and notifies its listeners if anything changed
+   * @param updates portfolio updates
+   */
+  private setPortfolio(updates: Partial<EERCPortfolioState>) {
+    if (!hasChanges(this.portfolio.state, updates)) return;
+
+    this.portfolio.state = { ...this.portfolio.state, ...updates };
+    for (const listener of [...this.portfolio.listeners]) listener();
+  }
+
+  /**
+   * merges the updates into a new balance snapshot and notifies its listeners if anything changed
+   * @param key balance key
+   * @param updates balance updates
+   */
+  private setBalance(key: string, updates: Partial<EERCBalanceState>) {
+    const balance = this.balances.get(key);
+    if (!balance || !hasChanges(balance.state, updates)) return;
+
+    balance.state = { ...balance.state, ...updates };
+    for (const listener of [...balance.listeners]) listener();
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./EERCClient";
+export * from "./types";
@@ -0,0 +1,62 @@
+import type { PublicClient, WalletClient } from "viem";
+import type { EERC } from "../EERC";
+import type { QueuedOperation } from "../helpers";
+import type {
+  CircuitURLs,
+  EERCOptions,
+  IBalanceState,
+  IEERCState,
+  KeyStatus,
+  OperationProgress,
+  PendingOperation,
+  PortfolioToken,
+} from "../hooks/types";
+
+export type EERCClientConfig = {
+  client: PublicClient;
+  // the sdk is not initialized until the wallet has an account
+  wallet: WalletClient;
+  contractAddress: `0x${string}`;
+  circuitURLs: CircuitURLs;
+  decryptionKey?: string;
+  options?: EERCOptions;
+  // block polling interval in ms, defaults to the polling interval of the public client
+  pollingInterval?: number;
+};
+
+export type EERCClientState = IEERCState & {
+  // undefined until the registrar address is fetched and the wallet has an account
+  eerc?: EERC;
+  auditorAddress?: `0x${string}`;
+  isAuditorKeySet: boolean;
+  areYouAuditor: boolean;
+  // decimals of the eERC token
+  decimals?: bigint;
+  publicKey: bigint[];
+  isDecryptionKeySet: boolean;
+  keyStatus?: KeyStatus;
+};
+
+export type EERCBalanceState = IBalanceState & {
+  // decimals of the underlying token, undefined for the stand-alone balance
+  tokenDecimals?: number;
+  // false until the balance is fetched and decrypted
+  isFetched: boolean;
+  // last operation on the token, operations without a token are reported for every token
+  progress: OperationProgress | null;
+  // balance after the broadcast operations that are not included in the fetched balance yet,
+  // equal to the fetched balance if there are none, operations spend from this balance
+  pendingBalance: bigint;
+  pendingEncrypted: bigint[];
+  pendingOperations: PendingOperation[];
+  // operations of the token that wait for, run or hold the operation queue of the account
+  queuedOperations: QueuedOperation[];
+};
+
+export type EERCPortfolioState = {
+  tokens: PortfolioToken[];
+  // false until the tokens are fetched and their balances decrypted
+  isFetched: boolean;
+};
+
+export type EERCClientListener = () => void;
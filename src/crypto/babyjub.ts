@@ -1,4 +1,5 @@
-import { SUB_GROUP_ORDER } from "../utils";
+import { MAX_DISCRETE_LOG_VALUE, SUB_GROUP_ORDER } from "../utils";
+import { BabyStepTable, ceilSqrt } from "./bsgs";
 import type { FF } from "./ff";
 import { Scalar } from "./scalar";
 import type { ElGamalCipherText, Point } from "./types";
@@ -190,6 +191,54 @@ export class BabyJub {
     const c1xInverse = [this.field.mul(c1x[0], -1n), c1x[1]] as Point;
     return this.addPoints(cipher.c2, c1xInverse);
   }
+
+  /**
+   * precomputes the baby steps j * Base8 for j in [0, size)
+   * @param size number of baby steps
+   * @returns baby-step table
+   */
+  generateBabyStepTable(size: number): BabyStepTable {
+    const xs: bigint[] = [];
+    let step = [this.field.zero, this.field.one] as Point;
+    for (let j = 0; j < size; j++) {
+      xs.push(step[0]);
+      step = this.addPoints(step, this.Base8);
+    }
+    return new BabyStepTable(xs);
+  }
+
+  /**
+   * solves m * Base8 = point for m in [0, maxValue] with baby-step giant-step
+   * @param point point
+   * @param maxValue upper bound of m
+   * @param table precomputed baby steps, generated with sqrt(maxValue + 1) steps if not provided
+   * @returns m or null if it is not in the range
+   */
+  discreteLog(
+    point: Point,
+    maxValue: bigint = MAX_DISCRETE_LOG_VALUE,
+    table?: BabyStepTable,
+  ): bigint | null {
+    const babySteps =
+      table ?? this.generateBabyStepTable(Number(ceilSqrt(maxValue + 1n)));
+    const size = BigInt(babySteps.size);
+
+    // giant step is -(size * Base8)
+    const giant = this.mulWithScalar(this.Base8, size);
+    const giantStep = [this.field.negate(giant[0]), giant[1]] as Point;
+
+    let current = point;
+    for (let i = 0n; i * size <= maxValue; i++) {
+      const j = babySteps.get(current[0]);
+      if (j !== undefined) {
+        const value = i * size + BigInt(j);
+        return value <= maxValue ? value : null;
+      }
+      current = this.addPoints(current, giantStep);
+    }
+
+    return null;
+  }
   /**
    * generates random bytes depending on the environment
    * @param bytes number of bytes
@@ -0,0 +1,84 @@
+/**
+ * serialized form of the baby-step table
+ */
+export type SerializedBabyStepTable = {
+  version: 1;
+  // x coordinates of j * Base8 for j in [0, size), hex encoded
+  points: string[];
+};
+
+/**
+ * precomputed baby steps (j * Base8 for j in [0, size)) used by the baby-step giant-step solver
+ * points are indexed by their x coordinate, in the prime order subgroup x is unique per point
+ */
+export class BabyStepTable {
+  private steps: Map<bigint, number>;
+  private xs: bigint[];
+
+  constructor(xs: bigint[]) {
+    if (!xs.length) throw new Error("Baby-step table can not be empty");
+
+    this.xs = xs;
+    this.steps = new Map();
+    for (let j = 0; j < xs.length; j++) {
+      this.steps.set(xs[j] as bigint, j);
+    }
+  }
+
+  /**
+   * number of baby steps in the table
+   */
+  get size() {
+    return this.xs.length;
+  }
+
+  /**
+   * returns the step j for the x coordinate of j * Base8
+   * @param x x coordinate
+   * @returns step or undefined if not in the table
+   */
+  get(x: bigint): number | undefined {
+    return this.steps.get(x);
+  }
+
+  /**
+   * serializes the table so it can be cached
+   * @returns serialized table
+   */
+  serialize(): SerializedBabyStepTable {
+    return {
+      version: 1,
+      points: this.xs.map((x) => x.toString(16)),
+    };
+  }
+
+  /**
+   * restores a table from its serialized form
+   * @param data serialized table
+   * @returns baby-step table
+   */
+  static deserialize(data: SerializedBabyStepTable): BabyStepTable {
+    if (data.version !== 1)
+      throw new Error(`Unsupported baby-step table version ${data.version}`);
+    return new BabyStepTable(data.points.map((x) => BigInt(`0x${x}`)));
+  }
+}
+
+/**
+ * integer square root rounded up
+ * @param value value
+ * @returns ceil(sqrt(value))
+ */
+export const ceilSqrt = (value: bigint): bigint => {
+  if (value < 0n) throw new Error("Square root of negative number");
+  if (value < 2n) return value;
+
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+
+  return x * x === value ? x : x + 1n;
+};
@@ -1 +1,3 @@
 export { Poseidon } from "./poseidon";
+export { BabyStepTable } from "./bsgs";
+export type { SerializedBabyStepTable } from "./bsgs";
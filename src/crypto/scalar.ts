@@ -30,6 +30,9 @@ export const Scalar = {
     return adjusted;
   },
 
+  /**
+   * @deprecated assumes 2 decimals, use formatAmount with the decimals of the contract
+   */
   parseEERCBalance(balance: bigint | [bigint, bigint]): string {
     let whole: bigint;
     let fractional: bigint;
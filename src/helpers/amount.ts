@@ -0,0 +1,161 @@
+import { EERCValidationError } from "./errors";
+
+export type FormatAmountOptions = {
+  // uses the group and decimal separators of the locale, e.g. "en-US" or "de-DE"
+  locale?: string | string[];
+  // fraction is padded with zeros up to this length, 0 by default
+  minimumFractionDigits?: number;
+  // fraction is truncated to this length, every digit is kept by default
+  maximumFractionDigits?: number;
+  // groups the whole part when a locale is given, true by default
+  useGrouping?: boolean;
+};
+
+export type ParseAmountOptions = {
+  // accepts the group and decimal separators of the locale, e.g. "en-US" or "de-DE"
+  locale?: string | string[];
+};
+
+/**
+ * returns the group and decimal separators of the locale
+ * @param locale locale
+ * @returns separators
+ */
+const getSeparators = (locale: string | string[]) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(11111.1);
+  return {
+    group: parts.find((part) => part.type === "group")?.value ?? "",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+  };
+};
+
+/**
+ * formats the amount with the given decimals, e.g. 12345n with 2 decimals is "123.45"
+ * @param amount amount in the smallest unit
+ * @param decimals decimals of the amount
+ * @param options locale and fraction digits
+ * @returns formatted amount
+ */
+export const formatAmount = (
+  amount: bigint,
+  decimals: number | bigint,
+  options: FormatAmountOptions = {},
+): string => {
+  const digits = Number(decimals);
+  const negative = amount < 0n;
+  const absolute = negative ? -amount : amount;
+  const base = 10n ** BigInt(digits);
+
+  const whole = absolute / base;
+  let fraction = digits
+    ? (absolute % base).toString().padStart(digits, "0")
+    : "";
+
+  if (options.maximumFractionDigits !== undefined)
+    fraction = fraction.slice(0, options.maximumFractionDigits);
+  fraction = fraction
+    .replace(/0+$/, "")
+    .padEnd(options.minimumFractionDigits ?? 0, "0");
+
+  const sign = negative ? "-" : "";
+  if (!options.locale)
+    return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+
+  const formatter = new Intl.NumberFormat(options.locale, {
+    useGrouping: options.useGrouping ?? true,
+  });
+  const { decimal } = getSeparators(options.locale);
+
+  return `${sign}${formatter.format(whole)}${fraction ? `${decimal}${fraction}` : ""}`;
+};
+
+/**
+ * parses the user entered amount into the smallest unit, e.g. "123.45" with 2 decimals is 12345n
+ * @param value entered amount
+ * @param decimals decimals of the amount
+ * @param options locale of the entered amount
+ * @returns amount in the smallest unit
+ */
+export const parseAmount = (
+  value: string,
+  decimals: number | bigint,
+  options: ParseAmountOptions = {},
+): bigint => {
+  const digits = Number(decimals);
+  let normalized = value.trim();
+
+  if (options.locale) {
+    const { group, decimal } = getSeparators(options.locale);
+    normalized = normalized.replace(/\s/g, "");
+    if (group) normalized = normalized.split(group).join("");
+    normalized = normalized.split(decimal).join(".");
+  }
+
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(normalized))
+    throw new EERCValidationError("INVALID_AMOUNT", "Invalid amount!");
+
+  const [whole = "", fraction = ""] = normalized.split(".");
+  if (fraction.length > digits)
+    throw new EERCValidationError(
+      "INVALID_AMOUNT",
+      `Amount can not have more than ${digits} decimals!`,
+    );
+
+  return BigInt(`${whole || "0"}${fraction.padEnd(digits, "0")}`);
+};
+
+/**
+ * converts the amount between decimals, extra digits are truncated
+ * e.g. 1.234567 usdc (6 decimals) is 1.23 eERC (2 decimals)
+ * @param amount amount in the smallest unit
+ * @param fromDecimals decimals of the amount
+ * @param toDecimals decimals to convert to
+ * @returns converted amount
+ */
+export const convertAmount = (
+  amount: bigint,
+  fromDecimals: number | bigint,
+  toDecimals: number | bigint,
+): bigint => {
+  const diff = Number(fromDecimals) - Number(toDecimals);
+  if (diff > 0) return amount / 10n ** BigInt(diff);
+  return amount * 10n ** BigInt(-diff);
+};
+
+/**
+ * splits the deposited token amount into the eERC amount credited by the contract and the dust refunded to the user
+ * e.g. 1.234567 usdc (6 decimals) is credited as 1.23 eERC (2 decimals) and 0.004567 usdc is refunded
+ * @param amount token amount in the smallest unit
+ * @param tokenDecimals decimals of the token
+ * @param eERCDecimals decimals of the eERC
+ * @returns eERC amount and dust in token decimals
+ */
+export const splitDepositAmount = (
+  amount: bigint,
+  tokenDecimals: number | bigint,
+  eERCDecimals: number | bigint,
+): { amount: bigint; dust: bigint } => {
+  const diff = Number(tokenDecimals) - Number(eERCDecimals);
+  if (diff <= 0)
+    return {
+      amount: convertAmount(amount, tokenDecimals, eERCDecimals),
+      dust: 0n,
+    };
+
+  const scalingFactor = 10n ** BigInt(diff);
+  return { amount: amount / scalingFactor, dust: amount % scalingFactor };
+};
+
+/**
+ * rounds the token amount down to the largest amount that can be deposited without dust
+ * @param amount token amount in the smallest unit
+ * @param tokenDecimals decimals of the token
+ * @param eERCDecimals decimals of the eERC
+ * @returns dust free token amount
+ */
+export const toDustFreeAmount = (
+  amount: bigint,
+  tokenDecimals: number | bigint,
+  eERCDecimals: number | bigint,
+): bigint =>
+  amount - splitDepositAmount(amount, tokenDecimals, eERCDecimals).dust;
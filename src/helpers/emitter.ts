@@ -0,0 +1,54 @@
+import { logMessage } from "./logger";
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * minimal typed event emitter that works in both browser and node
+ */
+export class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [E in keyof Events]?: Set<Listener<Events[E]>> } = {};
+
+  /**
+   * subscribes to the event
+   * @param event event name
+   * @param listener listener
+   * @returns function that removes the listener
+   */
+  on<E extends keyof Events>(
+    event: E,
+    listener: Listener<Events[E]>,
+  ): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[event] = listeners;
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * removes the listener of the event
+   * @param event event name
+   * @param listener listener
+   */
+  off<E extends keyof Events>(event: E, listener: Listener<Events[E]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * calls the listeners of the event, a failing listener does not stop the others
+   * @param event event name
+   * @param payload event payload
+   */
+  protected emit<E extends keyof Events>(event: E, payload: Events[E]) {
+    for (const listener of this.listeners[event] ?? []) {
+      try {
+        listener(payload);
+      } catch (e) {
+        logMessage(`Listener of ${String(event)} failed: ${e}`);
+      }
+    }
+  }
+}
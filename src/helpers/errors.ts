@@ -0,0 +1,325 @@
+import {
+  type Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  type Hex,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  toFunctionSelector,
+} from "viem";
+import type { ProofOperation } from "../prover/types";
+import { ENCRYPTED_ERC_ABI, REGISTRAR_ABI } from "../utils";
+
+/**
+ * operations that can fail in the sdk
+ */
+export type EERCOperation =
+  | "register"
+  | "generateDecryptionKey"
+  | "detectKeyDerivation"
+  | "setAuditor"
+  | "mint"
+  | "burn"
+  | "transfer"
+  | "approve"
+  | "deposit"
+  | "withdraw"
+  | "sendMessage"
+  | "decryptMessage"
+  | "decryptTransaction"
+  | "auditorDecrypt"
+  | "getHistory"
+  | "hasBeenAuditor"
+  | "waitForOperation"
+  | "getPortfolio"
+  | "exportKeystore"
+  | "unlockKeystore";
+
+/**
+ * custom errors declared in the EncryptedERC and Registrar contracts mapped to stable codes
+ */
+export const CONTRACT_ERROR_CODES = {
+  InvalidChainId: "INVALID_CHAIN_ID",
+  InvalidNullifier: "INVALID_NULLIFIER",
+  InvalidOperation: "INVALID_OPERATION",
+  InvalidProof: "INVALID_PROOF",
+  InvalidRegistrationHash: "INVALID_REGISTRATION_HASH",
+  InvalidSender: "INVALID_SENDER",
+  OwnableInvalidOwner: "INVALID_OWNER",
+  OwnableUnauthorizedAccount: "UNAUTHORIZED_ACCOUNT",
+  SafeERC20FailedOperation: "TOKEN_OPERATION_FAILED",
+  TokenBlacklisted: "TOKEN_BLACKLISTED",
+  TransferFailed: "TRANSFER_FAILED",
+  UnknownToken: "UNKNOWN_TOKEN",
+  UserAlreadyRegistered: "USER_ALREADY_REGISTERED",
+  UserNotRegistered: "USER_NOT_REGISTERED",
+  ZeroAddress: "ZERO_ADDRESS",
+} as const;
+
+export type ContractErrorCode =
+  (typeof CONTRACT_ERROR_CODES)[keyof typeof CONTRACT_ERROR_CODES];
+
+export type EERCErrorCode =
+  | ContractErrorCode
+  | "CONTRACT_REVERTED"
+  | "INVALID_ADDRESS"
+  | "INVALID_AMOUNT"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "DEPOSIT_DUST"
+  | "NOT_ALLOWED"
+  | "MISSING_WALLET"
+  | "MISSING_DECRYPTION_KEY"
+  | "MISSING_CIRCUIT"
+  | "ARTIFACT_LOAD_FAILED"
+  | "ARTIFACT_HASH_MISMATCH"
+  | "INVALID_CONFIG"
+  | "AUDITOR_NOT_SET"
+  | "RECEIVER_NOT_REGISTERED"
+  | "NOT_AUDITOR"
+  | "NOT_FOUND"
+  | "NOT_INITIALIZED"
+  | "PROOF_GENERATION_FAILED"
+  | "PROOF_VERIFICATION_FAILED"
+  | "KEY_DERIVATION_FAILED"
+  | "INVALID_KEY"
+  | "KEY_MISMATCH"
+  | "INVALID_KEYSTORE"
+  | "INVALID_MESSAGE"
+  | "INVALID_PASSWORD"
+  | "USER_REJECTED"
+  | "TRANSACTION_REVERTED"
+  | "TRANSACTION_REPLACED"
+  | "UNKNOWN";
+
+export type DecodedContractError = {
+  name: string;
+  args: readonly unknown[];
+};
+
+type EERCErrorOptions = {
+  operation?: EERCOperation;
+  contractError?: DecodedContractError;
+  cause?: unknown;
+};
+
+/**
+ * base error class of the sdk, every error thrown by `EERC` is an instance of it
+ */
+export class EERCError extends Error {
+  public code: EERCErrorCode;
+  public operation?: EERCOperation;
+  public contractError?: DecodedContractError;
+
+  constructor(
+    code: EERCErrorCode,
+    message: string,
+    options: EERCErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "EERCError";
+    this.code = code;
+    this.operation = options.operation;
+    this.contractError = options.contractError;
+  }
+}
+
+/**
+ * thrown when the provided input is invalid, before anything is sent to the chain
+ */
+export class EERCValidationError extends EERCError {
+  constructor(
+    code: EERCErrorCode,
+    message: string,
+    options: EERCErrorOptions = {},
+  ) {
+    super(code, message, options);
+    this.name = "EERCValidationError";
+  }
+}
+
+/**
+ * thrown when the contract reverts, `contractError` holds the decoded custom error if known
+ */
+export class EERCContractError extends EERCError {
+  constructor(
+    code: EERCErrorCode,
+    message: string,
+    options: EERCErrorOptions = {},
+  ) {
+    super(code, message, options);
+    this.name = "EERCContractError";
+  }
+}
+
+/**
+ * thrown when the zk proof could not be generated
+ */
+export class EERCProofError extends EERCError {
+  constructor(
+    code: EERCErrorCode,
+    message: string,
+    options: EERCErrorOptions = {},
+  ) {
+    super(code, message, options);
+    this.name = "EERCProofError";
+  }
+}
+
+type EERCProofVerificationErrorOptions = EERCErrorOptions & {
+  circuit: ProofOperation;
+  signal?: string;
+  index?: number;
+};
+
+/**
+ * thrown when the proof does not verify against the verification key of the circuit
+ * `signal` and `index` point to the first public input that differs from the expected one
+ */
+export class EERCProofVerificationError extends EERCProofError {
+  public circuit: ProofOperation;
+  public signal?: string;
+  public index?: number;
+
+  constructor(message: string, options: EERCProofVerificationErrorOptions) {
+    super("PROOF_VERIFICATION_FAILED", message, options);
+    this.name = "EERCProofVerificationError";
+    this.circuit = options.circuit;
+    this.signal = options.signal;
+    this.index = options.index;
+  }
+}
+
+/**
+ * thrown when the wallet or the rpc rejects the request
+ */
+export class EERCTransactionError extends EERCError {
+  constructor(
+    code: EERCErrorCode,
+    message: string,
+    options: EERCErrorOptions = {},
+  ) {
+    super(code, message, options);
+    this.name = "EERCTransactionError";
+  }
+}
+
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+const CONTRACT_ERRORS_ABI = [...ENCRYPTED_ERC_ABI, ...REGISTRAR_ABI].filter(
+  (item) => item.type === "error",
+) as AbiError[];
+
+// error selector -> abi item, used when viem could not decode the revert with the called abi
+const CONTRACT_ERRORS_BY_SELECTOR = new Map<string, AbiError>(
+  CONTRACT_ERRORS_ABI.map((item) => [
+    toFunctionSelector(
+      `${item.name}(${item.inputs.map((input) => input.type).join(",")})`,
+    ),
+    item,
+  ]),
+);
+
+/**
+ * decodes the custom contract error from the viem error
+ * @param error error thrown by viem
+ * @returns decoded error name and args, undefined if it is not a contract revert
+ */
+export const decodeContractError = (
+  error: unknown,
+): DecodedContractError | undefined => {
+  if (!(error instanceof BaseError)) return undefined;
+
+  const reverted = error.walk(
+    (e) => e instanceof ContractFunctionRevertedError,
+  ) as ContractFunctionRevertedError | null;
+
+  if (reverted?.data?.errorName) {
+    return { name: reverted.data.errorName, args: reverted.data.args ?? [] };
+  }
+
+  // only errors without arguments can be recovered from the signature
+  if (reverted?.signature) {
+    const item = CONTRACT_ERRORS_BY_SELECTOR.get(reverted.signature);
+    if (item) return { name: item.name, args: [] };
+  }
+
+  // raw revert data, e.g. from an estimateGas or a call error
+  const raw = error.walk(
+    (e) =>
+      typeof (e as { data?: unknown }).data === "string" &&
+      ((e as { data: string }).data as string).startsWith("0x"),
+  ) as (BaseError & { data: Hex }) | null;
+
+  if (raw) {
+    try {
+      const { errorName, args } = decodeErrorResult({
+        abi: CONTRACT_ERRORS_ABI as Abi,
+        data: raw.data,
+      });
+      return { name: errorName, args: args ?? [] };
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (reverted) return { name: "", args: [] };
+
+  return undefined;
+};
+
+/**
+ * converts any thrown value into an EERCError, keeping the original one as the cause
+ * @param error thrown value
+ * @param operation operation that failed
+ * @returns EERCError
+ */
+export const toEERCError = (
+  error: unknown,
+  operation: EERCOperation,
+): EERCError => {
+  if (error instanceof EERCError) {
+    if (!error.operation) error.operation = operation;
+    return error;
+  }
+
+  const contractError = decodeContractError(error);
+  if (contractError) {
+    const code =
+      CONTRACT_ERROR_CODES[
+        contractError.name as keyof typeof CONTRACT_ERROR_CODES
+      ] ?? "CONTRACT_REVERTED";
+
+    return new EERCContractError(
+      code,
+      contractError.name
+        ? `Contract reverted with ${contractError.name} during ${operation}`
+        : `Contract reverted during ${operation}`,
+      {
+        operation,
+        contractError: contractError.name ? contractError : undefined,
+        cause: error,
+      },
+    );
+  }
+
+  if (
+    error instanceof BaseError &&
+    error.walk((e) => e instanceof UserRejectedRequestError)
+  ) {
+    return new EERCTransactionError(
+      "USER_REJECTED",
+      `User rejected the request during ${operation}`,
+      { operation, cause: error },
+    );
+  }
+
+  const message =
+    error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : String(error);
+
+  return new EERCError("UNKNOWN", message, { operation, cause: error });
+};
@@ -1 +1,7 @@
+export * from "./amount";
+export * from "./emitter";
+export * from "./errors";
+export * from "./keystore";
+export * from "./logScanner";
 export * from "./logger";
+export * from "./queue";
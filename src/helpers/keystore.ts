@@ -0,0 +1,214 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { bytesToHex, hexToBytes } from "viem";
+import { EERCValidationError } from "./errors";
+
+export type KeystoreKdf =
+  | {
+      name: "scrypt";
+      salt: `0x${string}`;
+      n: number;
+      r: number;
+      p: number;
+    }
+  | {
+      name: "pbkdf2";
+      salt: `0x${string}`;
+      iterations: number;
+      hash: "SHA-256";
+    };
+
+/**
+ * versioned json export of the decryption key encrypted with a password or a wallet signature
+ */
+export type Keystore = {
+  version: 1;
+  // public key of the decryption key, identifies the account without unlocking
+  publicKey: [string, string];
+  address?: `0x${string}`;
+  crypto: {
+    cipher: "aes-256-gcm";
+    iv: `0x${string}`;
+    // encrypted key followed by the gcm tag
+    ciphertext: `0x${string}`;
+    kdf: KeystoreKdf;
+  };
+};
+
+export type KeystoreOptions = {
+  // scrypt by default, pbkdf2 only needs web crypto and is faster on low end devices
+  kdf?: "scrypt" | "pbkdf2";
+  // scrypt cost parameter, power of 2
+  n?: number;
+  // pbkdf2 iterations
+  iterations?: number;
+};
+
+export const DEFAULT_KEYSTORE_OPTIONS = {
+  kdf: "scrypt",
+  n: 2 ** 17,
+  iterations: 600_000,
+} as const;
+
+const getSubtle = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new Error("Web Crypto is not available");
+  return subtle;
+};
+
+/**
+ * derives the aes key from the secret with the kdf of the keystore
+ * @param secret password or wallet signature
+ * @param kdf kdf parameters
+ * @returns aes-gcm key
+ */
+const deriveKey = async (
+  secret: string,
+  kdf: KeystoreKdf,
+): Promise<CryptoKey> => {
+  const subtle = getSubtle();
+  const password = new TextEncoder().encode(secret.normalize("NFKC"));
+  const salt = hexToBytes(kdf.salt);
+
+  let bits: Uint8Array;
+  if (kdf.name === "scrypt") {
+    bits = await scryptAsync(password, salt, {
+      N: kdf.n,
+      r: kdf.r,
+      p: kdf.p,
+      dkLen: 32,
+    });
+  } else {
+    const material = await subtle.importKey("raw", password, "PBKDF2", false, [
+      "deriveBits",
+    ]);
+    bits = new Uint8Array(
+      await subtle.deriveBits(
+        { name: "PBKDF2", salt, iterations: kdf.iterations, hash: kdf.hash },
+        material,
+        256,
+      ),
+    );
+  }
+
+  return subtle.importKey("raw", bits, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+};
+
+/**
+ * encrypts the decryption key into a keystore
+ * @param decryptionKey decryption key as hex string
+ * @param publicKey public key of the decryption key
+ * @param secret password or wallet signature
+ * @param options kdf options
+ * @param address optional account address stored in plain text
+ * @returns keystore
+ */
+export const encryptKeystore = async (
+  decryptionKey: string,
+  publicKey: bigint[],
+  secret: string,
+  options: KeystoreOptions = {},
+  address?: `0x${string}`,
+): Promise<Keystore> => {
+  if (!secret)
+    throw new EERCValidationError("INVALID_PASSWORD", "Password is empty!");
+
+  const opts = { ...DEFAULT_KEYSTORE_OPTIONS, ...options };
+  const salt = bytesToHex(
+    globalThis.crypto.getRandomValues(new Uint8Array(32)),
+  );
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+
+  const kdf: KeystoreKdf =
+    opts.kdf === "scrypt"
+      ? { name: "scrypt", salt, n: opts.n, r: 8, p: 1 }
+      : { name: "pbkdf2", salt, iterations: opts.iterations, hash: "SHA-256" };
+
+  const key = await deriveKey(secret, kdf);
+  const ciphertext = await getSubtle().encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(decryptionKey),
+  );
+
+  return {
+    version: 1,
+    publicKey: [String(publicKey[0]), String(publicKey[1])],
+    address,
+    crypto: {
+      cipher: "aes-256-gcm",
+      iv: bytesToHex(iv),
+      ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+      kdf,
+    },
+  };
+};
+
+/**
+ * decrypts the decryption key from the keystore
+ * @param keystore keystore object or its json
+ * @param secret password or wallet signature
+ * @returns decryption key as hex string
+ */
+export const decryptKeystore = async (
+  keystore: Keystore | string,
+  secret: string,
+): Promise<string> => {
+  const parsed = parseKeystore(keystore);
+  const key = await deriveKey(secret, parsed.crypto.kdf);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await getSubtle().decrypt(
+      { name: "AES-GCM", iv: hexToBytes(parsed.crypto.iv) },
+      key,
+      hexToBytes(parsed.crypto.ciphertext),
+    );
+  } catch (e) {
+    // gcm authentication fails if the secret is wrong
+    throw new EERCValidationError("INVALID_PASSWORD", "Invalid password!", {
+      cause: e,
+    });
+  }
+
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * parses and validates the keystore
+ * @param keystore keystore object or its json
+ * @returns keystore
+ */
+export const parseKeystore = (keystore: Keystore | string): Keystore => {
+  let parsed: Keystore;
+  try {
+    parsed = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+  } catch (e) {
+    throw new EERCValidationError(
+      "INVALID_KEYSTORE",
+      "Invalid keystore json!",
+      {
+        cause: e,
+      },
+    );
+  }
+
+  if (parsed?.version !== 1)
+    throw new EERCValidationError(
+      "INVALID_KEYSTORE",
+      `Unsupported keystore version ${parsed?.version}`,
+    );
+
+  const { crypto } = parsed;
+  if (
+    crypto?.cipher !== "aes-256-gcm" ||
+    !crypto.iv ||
+    !crypto.ciphertext ||
+    !["scrypt", "pbkdf2"].includes(crypto.kdf?.name)
+  )
+    throw new EERCValidationError("INVALID_KEYSTORE", "Invalid keystore!");
+
+  return parsed;
+};
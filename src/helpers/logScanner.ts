@@ -0,0 +1,236 @@
+import {
+  type AbiEvent,
+  BaseError,
+  LimitExceededRpcError,
+  type Log,
+  type PublicClient,
+} from "viem";
+import { EERCValidationError } from "./errors";
+import { logMessage } from "./logger";
+
+export type LogScannerOptions = {
+  // first block to scan, e.g. the contract deployment block
+  fromBlock?: bigint;
+  // last block to scan, defaults to the latest block
+  toBlock?: bigint;
+  // number of blocks requested in a single getLogs call
+  chunkSize?: bigint;
+  // chunk size is never reduced below this when the rpc rejects the range
+  minChunkSize?: bigint;
+  // number of chunks requested in parallel
+  concurrency?: number;
+  // number of retries for errors that are not caused by the range limit
+  maxRetries?: number;
+  // base delay in ms between retries, doubled on every retry
+  retryDelay?: number;
+};
+
+export type LogFilter = {
+  event: AbiEvent;
+  args?: Record<string, unknown>;
+};
+
+export type LogPage<T extends Log = Log> = {
+  fromBlock: bigint;
+  toBlock: bigint;
+  logs: T[];
+};
+
+export const DEFAULT_LOG_SCANNER_OPTIONS = {
+  fromBlock: 0n,
+  chunkSize: 2048n,
+  minChunkSize: 16n,
+  concurrency: 4,
+  maxRetries: 3,
+  retryDelay: 500,
+};
+
+const RANGE_LIMIT_PATTERN =
+  /block range|range (is )?too (large|wide)|limit exceeded|too many (results|logs|blocks)|returned more than|exceeds? (the )?max/i;
+
+/**
+ * checks if the rpc rejected the getLogs call because of the block range or result size
+ * @param error error thrown by the rpc
+ * @returns boolean
+ */
+export const isRangeLimitError = (error: unknown): boolean => {
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof LimitExceededRpcError)) return true;
+    return RANGE_LIMIT_PATTERN.test(`${error.shortMessage} ${error.details}`);
+  }
+  return error instanceof Error && RANGE_LIMIT_PATTERN.test(error.message);
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * scans contract logs in block chunks, shrinks the chunk size when the rpc rejects the range
+ * and yields the logs page by page in block order
+ */
+export class LogScanner {
+  private client: PublicClient;
+  private address: `0x${string}`;
+  private options: typeof DEFAULT_LOG_SCANNER_OPTIONS & { toBlock?: bigint };
+
+  constructor(
+    client: PublicClient,
+    address: `0x${string}`,
+    options: LogScannerOptions = {},
+  ) {
+    this.client = client;
+    this.address = address;
+    this.options = { ...DEFAULT_LOG_SCANNER_OPTIONS, ...options };
+
+    if (this.options.chunkSize < 1n || this.options.minChunkSize < 1n)
+      throw new EERCValidationError(
+        "INVALID_CONFIG",
+        "Chunk size must be greater than 0!",
+      );
+    if (this.options.concurrency < 1)
+      throw new EERCValidationError(
+        "INVALID_CONFIG",
+        "Concurrency must be greater than 0!",
+      );
+  }
+
+  /**
+   * iterates over the logs matching the filters, one page per scanned chunk
+   * @param filters events and indexed args to filter
+   * @param options overrides the scanner options for this scan
+   */
+  async *scan<T extends Log = Log>(
+    filters: LogFilter[],
+    options: LogScannerOptions = {},
+  ): AsyncGenerator<LogPage<T>> {
+    const opts = { ...this.options, ...options };
+    const toBlock = opts.toBlock ?? (await this.client.getBlockNumber());
+
+    let chunkSize = opts.chunkSize;
+    let cursor = opts.fromBlock;
+
+    while (cursor <= toBlock) {
+      // prepare the next ranges that are going to be fetched in parallel
+      const ranges: [bigint, bigint][] = [];
+      for (let i = 0; i < opts.concurrency && cursor <= toBlock; i++) {
+        const end =
+          cursor + chunkSize - 1n > toBlock ? toBlock : cursor + chunkSize - 1n;
+        ranges.push([cursor, end]);
+        cursor = end + 1n;
+      }
+
+      const pages = await Promise.all(
+        ranges.map(([from, to]) =>
+          this.fetchRange<T>(filters, from, to, opts, (size) => {
+            if (size < chunkSize) chunkSize = size;
+          }),
+        ),
+      );
+
+      for (const page of pages) yield page;
+    }
+  }
+
+  /**
+   * collects all the logs matching the filters
+   * @param filters events and indexed args to filter
+   * @param options overrides the scanner options for this scan
+   * @returns logs sorted by block number and log index
+   */
+  async getLogs<T extends Log = Log>(
+    filters: LogFilter[],
+    options: LogScannerOptions = {},
+  ): Promise<T[]> {
+    const logs: T[] = [];
+    for await (const page of this.scan<T>(filters, options)) {
+      logs.push(...page.logs);
+    }
+    return logs;
+  }
+
+  /**
+   * fetches logs for the range, splits the range in half if the rpc rejects it
+   * @param filters events and indexed args to filter
+   * @param fromBlock range start
+   * @param toBlock range end
+   * @param opts scanner options
+   * @param onShrink called with the reduced chunk size so next ranges use it
+   */
+  private async fetchRange<T extends Log>(
+    filters: LogFilter[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    opts: typeof DEFAULT_LOG_SCANNER_OPTIONS,
+    onShrink: (size: bigint) => void,
+  ): Promise<LogPage<T>> {
+    try {
+      const logs: T[] = [];
+      for (const { event, args } of filters) {
+        const fetched = await this.withRetry(
+          () =>
+            this.client.getLogs({
+              address: this.address,
+              event,
+              args,
+              fromBlock,
+              toBlock,
+            }),
+          opts,
+        );
+        logs.push(...(fetched as unknown as T[]));
+      }
+
+      logs.sort((a, b) =>
+        a.blockNumber === b.blockNumber
+          ? (a.logIndex ?? 0) - (b.logIndex ?? 0)
+          : Number((a.blockNumber ?? 0n) - (b.blockNumber ?? 0n)),
+      );
+
+      return { fromBlock, toBlock, logs };
+    } catch (error) {
+      const size = toBlock - fromBlock + 1n;
+      if (!isRangeLimitError(error) || size <= opts.minChunkSize) throw error;
+
+      const half = size / 2n;
+      logMessage(`Block range too large, retrying with ${half} blocks`);
+      onShrink(half);
+
+      const left = await this.fetchRange<T>(
+        filters,
+        fromBlock,
+        fromBlock + half - 1n,
+        opts,
+        onShrink,
+      );
+      const right = await this.fetchRange<T>(
+        filters,
+        fromBlock + half,
+        toBlock,
+        opts,
+        onShrink,
+      );
+
+      return { fromBlock, toBlock, logs: [...left.logs, ...right.logs] };
+    }
+  }
+
+  /**
+   * retries the request with exponential backoff, range limit errors are not retried
+   * @param fn request
+   * @param opts scanner options
+   */
+  private async withRetry<R>(
+    fn: () => Promise<R>,
+    opts: typeof DEFAULT_LOG_SCANNER_OPTIONS,
+  ): Promise<R> {
+    let attempt = 0;
+    while (true) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (isRangeLimitError(error) || attempt >= opts.maxRetries) throw error;
+        await sleep(opts.retryDelay * 2 ** attempt);
+        attempt++;
+      }
+    }
+  }
+}
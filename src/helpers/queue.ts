@@ -0,0 +1,121 @@
+import { EventEmitter } from "./emitter";
+import type { EERCOperation } from "./errors";
+
+export type QueuedOperation = {
+  id: number;
+  operation: EERCOperation;
+  account: `0x${string}`;
+  tokenAddress?: `0x${string}`;
+  // confirming: sent, the next operation of the account waits until it is mined
+  status: "queued" | "running" | "confirming";
+  // number of times the operation is proved again after the balance changed
+  retries: number;
+};
+
+export type QueueContext = {
+  // true if the operation waited for another operation of the account, its balance may be stale
+  waited: boolean;
+  // keeps the next operations of the account waiting until the promise settles
+  hold: (promise: Promise<unknown>) => void;
+  // counts a retry of the operation
+  retry: () => void;
+};
+
+type QueueEvents = {
+  change: QueuedOperation[];
+};
+
+/**
+ * runs the operations of the same account and token one after another, operations of
+ * different accounts or tokens run in parallel
+ */
+export class OperationQueue extends EventEmitter<QueueEvents> {
+  private tails = new Map<string, Promise<void>>();
+  private operations: QueuedOperation[] = [];
+  private count = 0;
+
+  /**
+   * queued, running and confirming operations in the order they are queued
+   */
+  get snapshot(): QueuedOperation[] {
+    return this.operations;
+  }
+
+  /**
+   * runs the task after the previous operations of the account and token are settled
+   * @param details operation, account and token of the task
+   * @param task task to run
+   * @returns result of the task
+   */
+  async run<T>(
+    details: Pick<QueuedOperation, "operation" | "account" | "tokenAddress">,
+    task: (context: QueueContext) => Promise<T>,
+  ): Promise<T> {
+    const key =
+      `${details.account}-${details.tokenAddress ?? ""}`.toLowerCase();
+    const previous = this.tails.get(key);
+
+    let release = () => {};
+    const slot = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = (previous ?? Promise.resolve()).then(() => slot);
+    this.tails.set(key, tail);
+
+    const entry: QueuedOperation = {
+      ...details,
+      id: ++this.count,
+      status: "queued",
+      retries: 0,
+    };
+    this.update([...this.operations, entry]);
+
+    const holds: Promise<unknown>[] = [];
+    try {
+      await previous;
+      this.set(entry.id, () => ({ status: "running" }));
+
+      return await task({
+        waited: previous !== undefined,
+        hold: (promise) => holds.push(promise),
+        retry: () =>
+          this.set(entry.id, ({ retries }) => ({ retries: retries + 1 })),
+      });
+    } finally {
+      if (holds.length) this.set(entry.id, () => ({ status: "confirming" }));
+
+      Promise.allSettled(holds).then(() => {
+        this.update(this.operations.filter(({ id }) => id !== entry.id));
+        if (this.tails.get(key) === tail) this.tails.delete(key);
+        release();
+      });
+    }
+  }
+
+  /**
+   * replaces the operation with the updated copy
+   * @param id operation id
+   * @param updates returns the updates of the current operation
+   */
+  private set(
+    id: number,
+    updates: (operation: QueuedOperation) => Partial<QueuedOperation>,
+  ) {
+    this.update(
+      this.operations.map((operation) =>
+        operation.id === id
+          ? { ...operation, ...updates(operation) }
+          : operation,
+      ),
+    );
+  }
+
+  /**
+   * replaces the operations and notifies the listeners
+   * @param operations operations
+   */
+  private update(operations: QueuedOperation[]) {
+    this.operations = operations;
+    this.emit("change", operations);
+  }
+}
@@ -1,5 +1,59 @@
+import type { ArtifactManagerOptions, ArtifactProgress } from "../artifacts";
+import type { BabyStepTable } from "../crypto/bsgs";
+import type {
+  EERCError,
+  EERCOperation,
+  FormatAmountOptions,
+  Keystore,
+  KeystoreOptions,
+  LogScannerOptions,
+  ParseAmountOptions,
+  QueuedOperation,
+} from "../helpers";
+import type { ProofOperation, Prover, VerificationKey } from "../prover";
 import type { useEncryptedBalance } from "./useEncryptedBalance";
 
+export type OperationStage =
+  | "fetchingKeys"
+  | "encrypting"
+  | "proving"
+  | "proved"
+  | "verifying"
+  | "simulating"
+  | "signing"
+  | "broadcast"
+  | "confirming"
+  | "confirmed"
+  | "failed";
+
+export type OperationProgress = {
+  // increments on every operation call, groups the events of a single call
+  id: number;
+  operation: EERCOperation;
+  stage: OperationStage;
+  tokenAddress?: `0x${string}`;
+  // proof generation time in ms, set from the "proved" stage on
+  proofTime?: number;
+  // set from the "broadcast" stage on
+  transactionHash?: `0x${string}`;
+};
+
+// operation that is broadcast but not mined yet
+export type PendingOperation = {
+  operation: "transfer" | "burn" | "withdraw";
+  tokenAddress?: `0x${string}`;
+  transactionHash: `0x${string}`;
+  amount: bigint;
+  // el gamal ciphertext the contract subtracts from the sender balance, [c1.x, c1.y, c2.x, c2.y]
+  spentCiphertext: bigint[];
+};
+
+export type EERCEvents = {
+  progress: OperationProgress;
+  pending: PendingOperation;
+  queue: QueuedOperation[];
+};
+
 export type EncryptedBalance = [ContractCipher, ContractCipher];
 
 export type ContractCipher = {
@@ -14,6 +68,155 @@ export type PPoint = {
 
 export type OperationResult = {
   transactionHash: `0x${string}`;
+  // set when the operation waits for confirmations, see `EERCOptions.confirmations`
+  receipt?: OperationReceipt;
+};
+
+export type BatchTransferRecipient = {
+  to: `0x${string}`;
+  amount: bigint;
+  message?: string;
+};
+
+export type BatchTransferItemResult = BatchTransferRecipient & {
+  // skipped transfers are not sent because an earlier transfer failed
+  status: "success" | "failed" | "skipped";
+  // set for failed transfers if the transaction was sent, it may still be mined
+  transactionHash?: `0x${string}`;
+  receipt?: OperationReceipt;
+  error?: EERCError;
+};
+
+export type BatchTransferResult = {
+  results: BatchTransferItemResult[];
+  // failed and skipped recipients, pass them with the returned balance to batchTransfer to resume
+  remaining: BatchTransferRecipient[];
+  // balance after the successful transfers, computed locally
+  encryptedBalance: bigint[];
+  decryptedBalance: bigint;
+};
+
+export type OperationEvent = {
+  eventName:
+    | "PrivateTransfer"
+    | "PrivateMint"
+    | "PrivateBurn"
+    | "Deposit"
+    | "Withdraw"
+    | "PrivateMessage";
+  logIndex: number;
+  args: Record<string, unknown>;
+  // amount visible to the caller, from the operation itself, the auditor pct or the public event
+  decryptedAmount?: bigint;
+  // message of PrivateMessage events sent to the caller
+  message?: DecryptedMetadata;
+};
+
+export type OperationReceipt = {
+  // hash of the mined transaction, differs from the sent one if the wallet repriced it
+  transactionHash: `0x${string}`;
+  // set if the sent transaction was repriced
+  replacedTransactionHash?: `0x${string}`;
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  events: OperationEvent[];
+};
+
+export type WaitForOperationOptions = {
+  // number of blocks on top of the transaction block, defaults to 1
+  confirmations?: number;
+  // timeout in ms
+  timeout?: number;
+};
+
+export type RegisterOptions = {
+  // decryption key as hex string, e.g. generated by a custodial backend
+  privateKey?: string;
+  // expected public key of the private key, registration is refused if it does not match
+  publicKey?: bigint[];
+};
+
+export type SendMessageOptions = {
+  // already known receiver public key, skips the registrar lookup
+  receiverPublicKey?: bigint[];
+};
+
+export type DepositOptions = {
+  // deposits that would refund part of the amount as dust are refused when false
+  allowDust?: boolean;
+};
+
+export type DepositResult = OperationResult & {
+  // amount credited to the encrypted balance, in eERC decimals
+  expectedAmount: bigint;
+  // amount refunded by the contract, in token decimals
+  dust: bigint;
+};
+
+export type ApproveAndDepositOptions = DepositOptions & {
+  // approves the deposit amount by default, unlimited skips the approval on the next deposits
+  approval?: "exact" | "unlimited";
+  // signs an eip-2612 permit instead of approve when the token supports it
+  permit?: boolean;
+  // seconds the permit is valid for, 20 minutes by default
+  permitDeadline?: number;
+};
+
+export type ApproveAndDepositResult = DepositResult & {
+  // undefined if the allowance already covered the amount
+  approvalTransactionHash?: `0x${string}`;
+};
+
+export type EERCOptions = {
+  // generates the proofs, snarkjs on the calling thread by default
+  prover?: Prover;
+  // persistent cache of the circuit artifacts
+  artifacts?: ArtifactManagerOptions;
+  // message signed to derive the decryption key, personal_sign by default
+  keyDerivation?: KeyDerivationMode;
+  // operations wait for this many confirmations and return the decoded receipt
+  confirmations?: number;
+  // balance consuming operations are proved again this many times if the contract rejects
+  // the proof because the balance changed, 1 by default
+  proofRetries?: number;
+  // block range, chunk size and concurrency used when scanning contract logs, set `fromBlock`
+  // to the deployment block, the client only checks the last 1000 blocks for the auditor without it
+  logScanner?: LogScannerOptions;
+  // bounds of the balance recovery from el gamal cipher text
+  bsgs?: {
+    maxValue?: bigint;
+    // precomputed table, e.g. restored with BabyStepTable.deserialize
+    table?: BabyStepTable;
+  };
+};
+
+// missing: no decryption key, unregistered: wallet has no registered public key
+export type KeyStatus = "missing" | "matches" | "mismatch" | "unregistered";
+
+export type KeyDerivationMode = "personalSign" | "eip712";
+
+export type KeyDerivationMatch = {
+  // first mode whose key matches the registered public key
+  mode?: KeyDerivationMode;
+  // decryption key of the matching mode
+  key?: string;
+  personalSign: boolean;
+  eip712: boolean;
+};
+
+export type InconsistentPCT = {
+  type: "balance" | "amount";
+  // transaction index of the amount pct
+  index?: bigint;
+  amount?: bigint;
+};
+
+export type DecryptedBalance = {
+  balance: bigint;
+  // "egct" when the pcts were not synced and the balance is recovered from el gamal cipher text
+  source: "pct" | "egct";
+  inconsistentPCTs: InconsistentPCT[];
 };
 
 export type DecryptedTransaction = {
@@ -22,6 +225,18 @@ export type DecryptedTransaction = {
   sender: `0x${string}`;
   receiver: `0x${string}` | null;
   transactionHash: `0x${string}`;
+  blockNumber: bigint;
+
+  // For converter deposit/withdraw transactions
+  tokenId?: bigint;
+  tokenAddress?: `0x${string}`;
+  dust?: string;
+};
+
+export type AuditorDecryptPage = {
+  fromBlock: bigint;
+  toBlock: bigint;
+  transactions: DecryptedTransaction[];
 };
 
 export type DecryptedEvent = {
@@ -42,9 +257,70 @@ export type DecryptedEvent = {
   to?: `0x${string}`;
   auditorAddress?: `0x${string}`;
 
-  // For deposit/withdraw events
+  // For deposit/withdraw events, amount is in eERC decimals and tokenAmount in token decimals
   user?: `0x${string}`;
   amount?: string;
+  tokenAmount?: string;
+  tokenId?: bigint;
+  tokenAddress?: `0x${string}`;
+  // token amount refunded on deposit, in token decimals
+  dust?: string;
+
+  // For private mint events, nullifier of the mint proof
+  nullifierHash?: string;
+};
+
+export type HistoryOptions = LogScannerOptions & {
+  // only the entries of the token, converter version only
+  tokenAddress?: `0x${string}`;
+  // scanning stops after the window in which the number of entries reaches the limit, 20 by default
+  limit?: number;
+  // windows of chunkSize * concurrency blocks scanned per call, 4 by default, the scan
+  // continues from nextToBlock of the page
+  maxWindows?: number;
+};
+
+export type HistoryEntry = {
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+  logIndex: number;
+  eventType: DecryptedEvent["eventType"] | "PrivateMessage";
+  // in: the user received the amount or the message, out: the user sent it
+  direction: "in" | "out";
+  from?: `0x${string}`;
+  to?: `0x${string}`;
+  // eERC decimals
+  amount?: bigint;
+  // token decimals, only for deposits and withdrawals
+  tokenAmount?: bigint;
+  tokenId?: bigint;
+  dust?: bigint;
+  // message sent with the operation, only decrypted if the user is the receiver
+  message?: DecryptedMetadata;
+  decryptError?: string;
+};
+
+export type HistoryPage = {
+  // latest first
+  entries: HistoryEntry[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  // pass as toBlock to fetch the older entries, undefined if the first block is reached
+  nextToBlock?: bigint;
+};
+
+export type PortfolioToken = {
+  tokenAddress: `0x${string}`;
+  tokenId: bigint;
+  // empty if the token does not implement symbol
+  symbol: string;
+  // undefined if the token does not implement decimals
+  decimals?: number;
+  // decrypted balance in eERC decimals, -1n if it can not be recovered
+  balance: bigint;
+  // decrypted balance in token decimals
+  underlyingBalance?: bigint;
+  encryptedBalance: bigint[];
 };
 
 export type EERCHookResult = {
@@ -60,33 +336,66 @@ export type EERCHookResult = {
   name: string;
   symbol: string;
   isDecryptionKeySet: boolean;
+  keyStatus: KeyStatus | undefined;
   areYouAuditor: boolean;
   hasBeenAuditor: {
     isChecking: boolean;
     isAuditor: boolean;
   };
   generateDecryptionKey: () => Promise<string>;
-  register: () => Promise<{ key: string; transactionHash: string }>;
-  auditorDecrypt: () => Promise<DecryptedTransaction[]>;
+  detectKeyDerivation: () => Promise<KeyDerivationMatch>;
+  verifyKey: () => Promise<KeyStatus>;
+  unlockKeystore: (
+    keystore: Keystore | string,
+    password?: string,
+  ) => Promise<string>;
+  exportKeystore: (
+    password?: string,
+    options?: KeystoreOptions,
+  ) => Promise<Keystore>;
+  register: (
+    options?: RegisterOptions,
+  ) => Promise<{ key: string; transactionHash: string }>;
+  auditorDecrypt: (
+    options?: LogScannerOptions,
+  ) => Promise<DecryptedTransaction[]>;
   isAddressRegistered: (
     address: `0x${string}`,
   ) => Promise<{ isRegistered: boolean; error: string | null }>;
   useEncryptedBalance: (
     tokenAddress?: `0x${string}`,
   ) => ReturnType<typeof useEncryptedBalance>;
+  usePortfolio: () => UsePortfolioHookResult;
+  useTransactionHistory: (
+    options?: HistoryOptions,
+  ) => UseTransactionHistoryHookResult;
   refetchEercUser: () => void;
   refetchAuditor: () => void;
   setContractAuditorPublicKey: (
     address: `0x${string}`,
   ) => Promise<`0x${string}`>;
+  preloadCircuits: (
+    operations?: ProofOperation[],
+    onProgress?: (progress: ArtifactProgress) => void,
+  ) => Promise<void>;
 };
 
+// eerc: amounts of the encrypted balance, token: amounts of the underlying erc20 (e.g. deposit)
+export type AmountUnit = "eerc" | "token";
+
 export type UseEncryptedBalanceHookResult = {
   decryptedBalance: bigint;
   parsedDecryptedBalance: string;
   encryptedBalance: bigint[];
+  pendingBalance: bigint;
+  pendingEncryptedBalance: bigint[];
+  pendingOperations: PendingOperation[];
+  queuedOperations: QueuedOperation[];
   auditorPublicKey: bigint[];
   decimals: bigint;
+  tokenDecimals?: number;
+  stage: OperationStage | null;
+  progress: OperationProgress | null;
   decryptMessage: (transactionHash: string) => Promise<DecryptedMetadata>;
   decryptTransaction: (transactionHash: string) => Promise<DecryptedEvent[]>;
   privateMint: (
@@ -99,16 +408,65 @@ export type UseEncryptedBalanceHookResult = {
     to: string,
     amount: bigint,
     message?: string,
-  ) => Promise<{
-    transactionHash: `0x${string}`;
-    receiverEncryptedAmount: string[];
-    senderEncryptedAmount: string[];
-  }>;
+  ) => Promise<
+    OperationResult & {
+      receiverEncryptedAmount: string[];
+      senderEncryptedAmount: string[];
+    }
+  >;
+  batchTransfer: (
+    recipients: BatchTransferRecipient[],
+  ) => Promise<BatchTransferResult>;
   withdraw: (amount: bigint, message?: string) => Promise<OperationResult>;
-  deposit: (amount: bigint, message?: string) => Promise<OperationResult>;
+  deposit: (
+    amount: bigint,
+    message?: string,
+    options?: DepositOptions,
+  ) => Promise<DepositResult>;
+  approveAndDeposit: (
+    amount: bigint,
+    message?: string,
+    options?: ApproveAndDepositOptions,
+  ) => Promise<ApproveAndDepositResult>;
+  getDustFreeAmount: (amount: bigint) => bigint;
+  sendMessage: (
+    to: `0x${string}`,
+    message: string,
+    options?: SendMessageOptions,
+  ) => Promise<OperationResult>;
+  waitForOperation: (
+    transactionHash: `0x${string}`,
+    options?: WaitForOperationOptions,
+  ) => Promise<OperationReceipt>;
+  formatAmount: (
+    amount: bigint,
+    options?: FormatAmountOptions,
+    unit?: AmountUnit,
+  ) => string;
+  parseAmount: (
+    value: string,
+    options?: ParseAmountOptions,
+    unit?: AmountUnit,
+  ) => bigint;
   refetchBalance: () => void;
 };
 
+export type UsePortfolioHookResult = {
+  tokens: PortfolioToken[];
+  isFetched: boolean;
+  refetchPortfolio: () => void;
+};
+
+export type UseTransactionHistoryHookResult = {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  isFetched: boolean;
+  hasMore: boolean;
+  error: Error | null;
+  loadMore: () => Promise<void>;
+  refetch: () => Promise<void>;
+};
+
 export interface IBalanceState {
   decrypted: bigint;
   parsed: string;
@@ -130,27 +488,22 @@ export interface IEERCState {
     isAuditor: boolean;
   };
 }
+export type CircuitURL = {
+  wasm: string;
+  zkey: string;
+  // optional sha256 of the files, artifacts that do not match are rejected
+  wasmHash?: string;
+  zkeyHash?: string;
+  // verification key json or its url, proofs are verified locally before sending if set
+  verificationKey?: string | VerificationKey;
+};
+
 export type CircuitURLs = {
-  register: {
-    wasm: string;
-    zkey: string;
-  };
-  transfer: {
-    wasm: string;
-    zkey: string;
-  };
-  mint: {
-    wasm: string;
-    zkey: string;
-  };
-  withdraw: {
-    wasm: string;
-    zkey: string;
-  };
-  burn: {
-    wasm: string;
-    zkey: string;
-  };
+  register: CircuitURL;
+  transfer: CircuitURL;
+  mint: CircuitURL;
+  withdraw: CircuitURL;
+  burn: CircuitURL;
 };
 
 export type eERC_Proof = {
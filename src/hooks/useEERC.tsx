@@ -1,18 +1,32 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import type { Abi, PublicClient, WalletClient } from "viem";
-import { useBlockNumber, useReadContract, useReadContracts } from "wagmi";
-import { EERC } from "../EERC";
-import type { Point } from "../crypto/types";
-import { logMessage } from "../helpers";
-import { ENCRYPTED_ERC_ABI } from "../utils";
-import { REGISTRAR_ABI } from "../utils/Registrar.abi";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { PublicClient, WalletClient } from "viem";
+import type { ArtifactProgress } from "../artifacts";
+import { EERCClient, INITIAL_CLIENT_STATE } from "../client";
+import {
+  type Keystore,
+  type KeystoreOptions,
+  type LogScannerOptions,
+  logMessage,
+} from "../helpers";
+import type { ProofOperation } from "../prover";
 import type {
   CircuitURLs,
   DecryptedTransaction,
   EERCHookResult,
-  IEERCState,
+  EERCOptions,
+  HistoryOptions,
+  RegisterOptions,
 } from "./types";
 import { useEncryptedBalance } from "./useEncryptedBalance";
+import { usePortfolio } from "./usePortfolio";
+import { useTransactionHistory } from "./useTransactionHistory";
 
 export function useEERC(
   client: PublicClient,
@@ -20,371 +34,151 @@ export function useEERC(
   contractAddress: string,
   circuitURLs: CircuitURLs,
   decryptionKey?: string,
+  options?: EERCOptions,
 ): EERCHookResult {
-  const { data: blockNumber } = useBlockNumber({ watch: true });
-  const [eerc, setEerc] = useState<EERC | undefined>(undefined);
-  const [eercState, setEercState] = useState<IEERCState>({
-    isInitialized: false,
-    isConverter: false,
-    auditorPublicKey: [],
-    name: "",
-    symbol: "",
-    registrarAddress: "",
-    isRegistered: false,
-    isAllDataFetched: false,
-    owner: "",
-    hasBeenAuditor: {
-      isChecking: false,
-      isAuditor: false,
-    },
-  });
-  const [generatedDecryptionKey, setGeneratedDecryptionKey] =
-    useState<string>("");
-
-  const updateEercState = useCallback(
-    (updates: Partial<IEERCState>) =>
-      setEercState((prevState) => ({ ...prevState, ...updates })),
-    [],
-  );
-
-  const eercContract = useMemo(
-    () => ({
-      address: contractAddress as `0x${string}`,
-      abi: ENCRYPTED_ERC_ABI as Abi,
-    }),
-    [contractAddress],
-  );
-
-  const registrarContract = useMemo(
-    () => ({
-      address: eercState.registrarAddress as `0x${string}`,
-      abi: REGISTRAR_ABI as Abi,
-    }),
-    [eercState.registrarAddress],
-  );
+  const [eercClient, setEercClient] = useState<EERCClient | undefined>();
 
   const circuitURLsKey = useMemo(() => {
     return JSON.stringify(circuitURLs);
   }, [circuitURLs]);
 
-  /**
-   * get user data for checking is user registered
-   */
-  const {
-    data: userData,
-    isFetched: isUserDataFetched,
-    refetch: refetchEercUser,
-  } = useReadContract({
-    ...registrarContract,
-    functionName: "getUserPublicKey",
-    args: [wallet?.account?.address],
-    query: {
-      enabled: Boolean(eerc && wallet?.account?.address && registrarContract),
-    },
-  });
+  // options are read only when the sdk is initialized, no need to re-create it on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
+  // a new client is created for every wallet, so the generated decryption key is reset when the wallet changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: circuitURLsKey is a stable key for circuitURLs
   useEffect(() => {
-    if (userData && isUserDataFetched) {
-      const data = userData as Point;
-      updateEercState({
-        isRegistered: !(data[0] === 0n && data[1] === 0n),
-      });
-    }
-  }, [userData, isUserDataFetched, updateEercState]);
-
-  /**
-   * get contract name,symbol,registrar address and isConverter or not
-   */
-  const { data: contractData, isFetched: isContractDataFetched } =
-    useReadContracts({
-      contracts: [
-        {
-          ...eercContract,
-          functionName: "name",
-          args: [],
-        },
-        {
-          ...eercContract,
-          functionName: "symbol",
-          args: [],
-        },
-        {
-          ...eercContract,
-          functionName: "registrar",
-        },
-        {
-          ...eercContract,
-          functionName: "isConverter",
-        },
-        {
-          ...eercContract,
-          functionName: "owner",
-        },
-      ],
-      query: {
-        enabled: Boolean(contractAddress),
-      },
+    if (!client || !contractAddress || !circuitURLs) return;
+
+    const _client = new EERCClient({
+      client,
+      wallet,
+      contractAddress: contractAddress as `0x${string}`,
+      circuitURLs,
+      decryptionKey,
+      options: optionsRef.current,
     });
+    setEercClient(_client);
+    _client
+      .start()
+      .catch((error) => logMessage(`Failed to initialize EERC: ${error}`));
 
-  // update name and symbol data
-  useEffect(() => {
-    if (contractData && isContractDataFetched) {
-      const [
-        nameData,
-        symbolData,
-        registrarAddress,
-        isConverterData,
-        ownerData,
-      ] = contractData;
+    return () => {
+      _client.stop();
+      setEercClient(undefined);
+    };
+  }, [client, wallet, contractAddress, decryptionKey, circuitURLsKey]);
 
-      updateEercState({
-        name: nameData.status === "success" ? (nameData.result as string) : "",
-        symbol:
-          symbolData.status === "success" ? (symbolData.result as string) : "",
-        registrarAddress:
-          registrarAddress.status === "success"
-            ? (registrarAddress.result as string)
-            : "",
-        isConverter:
-          isConverterData.status === "success"
-            ? (isConverterData.result as boolean)
-            : false,
-        owner:
-          ownerData.status === "success"
-            ? (ownerData.result as `0x${string}`)
-            : "",
-      });
-    }
-  }, [contractData, isContractDataFetched, updateEercState]);
+  const subscribe = useCallback(
+    (listener: () => void) => eercClient?.subscribe(listener) ?? (() => {}),
+    [eercClient],
+  );
+  const getSnapshot = useCallback(
+    () => eercClient?.getSnapshot() ?? INITIAL_CLIENT_STATE,
+    [eercClient],
+  );
+  const eercState = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const { eerc } = eercState;
 
   /**
-   * fetch auditor public key
+   * compare the decryption key with the registered public key
+   * @returns key status
    */
-  const {
-    data: auditorPublicKeyData,
-    isFetched: isAuditorPublicKeyFetched,
-    refetch: refetchAuditor,
-  } = useReadContract({
-    ...eercContract,
-    functionName: "auditorPublicKey",
-    args: [],
-    query: {
-      enabled: Boolean(contractAddress) && Boolean(eerc),
-    },
-  });
+  const verifyKey = useCallback(() => {
+    if (!eercClient) throw new Error("EERC not initialized");
+    return eercClient.verifyKey();
+  }, [eercClient]);
 
-  useEffect(() => {
-    if (auditorPublicKeyData && isAuditorPublicKeyFetched) {
-      updateEercState({
-        auditorPublicKey: auditorPublicKeyData as bigint[],
-      });
-    }
-  }, [auditorPublicKeyData, isAuditorPublicKeyFetched, updateEercState]);
-
-  const {
-    data: auditorAddress,
-    isFetched: isAuditorAddressFetched,
-    refetch: refetchAuditorAddress,
-  } = useReadContract({
-    ...eercContract,
-    functionName: "auditor",
-    args: [],
-    query: {
-      enabled: Boolean(contractAddress) && Boolean(eerc),
+  /**
+   * register user to the EERC contract
+   * @param registerOptions - key to register, e.g. imported from a custodial backend
+   * @returns object - returns the key and transaction hash
+   */
+  const register = useCallback(
+    (registerOptions?: RegisterOptions) => {
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.register(registerOptions);
     },
-  });
-
-  // biome-ignore lint/correctness/useExhaustiveDependencies: we don't need to refetch on every render
-  useEffect(() => {
-    // when blocknumber changes refetch
-    // - user public key
-    // - auditor public key
-    // - auditor address
-    refetchEercUser();
-    refetchAuditor();
-    refetchAuditorAddress();
-  }, [blockNumber]);
+    [eercClient],
+  );
 
   /**
-   * check if user has been auditor
+   * generate decryption key
+   * @returns string - decryption key
    */
-  const checkIsAuditor = useCallback(async () => {
-    if (!eerc) return;
-
-    try {
-      updateEercState({
-        hasBeenAuditor: { isChecking: true, isAuditor: false },
-      });
-      const isAuditor = await eerc.hasBeenAuditor();
-      updateEercState({
-        hasBeenAuditor: { isChecking: false, isAuditor },
-      });
-    } catch (error) {
-      setEercState((prevState) => ({
-        ...prevState,
-        hasBeenAuditor: {
-          ...prevState.hasBeenAuditor,
-          isChecking: false,
-        },
-      }));
-      logMessage(`Failed to check is auditor: ${error}`);
-    }
-  }, [eerc, updateEercState]);
-
-  useEffect(() => {
-    if (eerc) {
-      checkIsAuditor();
-    }
-  }, [eerc, checkIsAuditor]);
-
-  // biome-ignore lint/correctness/useExhaustiveDependencies: we want to reset the key when wallet changes
-  useEffect(() => {
-    setGeneratedDecryptionKey("");
-  }, [wallet?.account?.address]);
-
-  // check is all data fetched
-  useEffect(() => {
-    if (
-      isUserDataFetched &&
-      isContractDataFetched &&
-      isAuditorPublicKeyFetched &&
-      isAuditorAddressFetched
-    ) {
-      logMessage("All data fetched");
-      updateEercState({
-        isAllDataFetched: true,
-      });
-    }
-
-    return () => {
-      updateEercState({
-        isAllDataFetched: false,
-      });
-    };
-  }, [
-    isUserDataFetched,
-    isContractDataFetched,
-    isAuditorPublicKeyFetched,
-    isAuditorAddressFetched,
-    updateEercState,
-  ]);
-
-  // biome-ignore lint/correctness/useExhaustiveDependencies: circuitURLsKey is a stable key for circuitURLs
-  useEffect(() => {
-    let mounted = true;
-
-    const initializeEERC = async () => {
-      if (
-        !client ||
-        !wallet?.account?.address ||
-        !contractAddress ||
-        eercState.isConverter === undefined ||
-        !eercState.registrarAddress ||
-        eercState.isInitialized ||
-        !circuitURLs
-      )
-        return;
-
-      try {
-        const correctKey = decryptionKey || generatedDecryptionKey;
-        if (!correctKey) {
-          logMessage("Decryption key is not set");
-        }
-
-        const _eerc = new EERC(
-          client,
-          wallet,
-          contractAddress as `0x${string}`,
-          eercState.registrarAddress as `0x${string}`,
-          eercState.isConverter,
-          circuitURLs,
-          correctKey,
-        );
-
-        if (mounted) {
-          setEerc(_eerc);
-          updateEercState({
-            isInitialized: true,
-          });
-        }
-      } catch (error) {
-        logMessage(`Failed to initialize EERC: ${error}`);
-      }
-    };
-
-    initializeEERC();
-
-    // Cleanup function to reset state only when necessary
-    return () => {
-      mounted = false;
-      if (eercState.isInitialized) {
-        updateEercState({
-          isInitialized: false,
-        });
-        setEerc(undefined);
-      }
-    };
-  }, [
-    client,
-    wallet,
-    contractAddress,
-    eercState.isConverter,
-    eercState.registrarAddress,
-    decryptionKey,
-    eercState.isInitialized,
-    updateEercState,
-    generatedDecryptionKey,
-    circuitURLsKey,
-  ]);
+  const generateDecryptionKey = useCallback(() => {
+    if (!eercClient) throw new Error("EERC not initialized");
+    return eercClient.generateDecryptionKey();
+  }, [eercClient]);
 
   /**
-   * check if the decryption key should be generated
-   * @returns boolean - returns true if user is registered and decryption key is not set
+   * find the key derivation mode the user registered with and set its key
+   * @returns object - returns the matching mode
    */
-  const isDecryptionKeySet = useMemo(() => {
-    if (!eerc) {
-      return false;
-    }
-    return eerc?.isDecryptionKeySet;
-  }, [eerc]);
+  const detectKeyDerivation = useCallback(() => {
+    if (!eercClient) throw new Error("EERC not initialized");
+    return eercClient.detectKeyDerivation();
+  }, [eercClient]);
 
   /**
-   * register user to the EERC contract
-   * @returns object - returns the key and transaction hash
+   * unlock the decryption key from a keystore
+   * @param keystore - keystore object or its json
+   * @param password - keystore password, the wallet signs the keystore message if not given
+   * @returns decryption key
    */
-  const register = useCallback(() => {
-    if (!eerc) {
-      throw new Error("EERC not initialized");
-    }
-    return eerc.register();
-  }, [eerc]);
+  const unlockKeystore = useCallback(
+    (keystore: Keystore | string, password?: string) => {
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.unlockKeystore(keystore, password);
+    },
+    [eercClient],
+  );
 
   /**
-   * generate decryption key
-   * @returns string - decryption key
+   * encrypt the decryption key into a keystore
+   * @param password - keystore password, the wallet signs the keystore message if not given
+   * @param keystoreOptions - kdf options
+   * @returns keystore
    */
-  const generateDecryptionKey = useCallback(async () => {
-    if (!eerc) {
-      throw new Error("EERC not initialized");
-    }
-    // generate decryption key
-    const key = await eerc.generateDecryptionKey();
-    // set decryption key
-    setGeneratedDecryptionKey(key);
-    // return decryption key
-    return key;
-  }, [eerc]);
+  const exportKeystore = useCallback(
+    (password?: string, keystoreOptions?: KeystoreOptions) => {
+      if (!eerc) throw new Error("EERC not initialized");
+      return eerc.exportKeystore(password, keystoreOptions);
+    },
+    [eerc],
+  );
 
   /**
    * decrypt the encrypted data by the auditor public key
+   * @param scanOptions - log scanner options, e.g. block range
    * @returns array of decrypted transactions
    */
-  const auditorDecrypt = useCallback((): Promise<DecryptedTransaction[]> => {
-    if (!eerc) {
-      throw new Error("EERC not initialized");
-    }
-    return eerc.auditorDecrypt();
-  }, [eerc]);
+  const auditorDecrypt = useCallback(
+    (scanOptions?: LogScannerOptions): Promise<DecryptedTransaction[]> => {
+      if (!eerc) {
+        throw new Error("EERC not initialized");
+      }
+      return eerc.auditorDecrypt(scanOptions);
+    },
+    [eerc],
+  );
+
+  /**
+   * download the circuit artifacts ahead of the first proof
+   * @param operations - operations to preload, defaults to all of them
+   * @param onProgress - download progress callback
+   */
+  const preloadCircuits = useCallback(
+    (
+      operations?: ProofOperation[],
+      onProgress?: (progress: ArtifactProgress) => void,
+    ): Promise<void> => {
+      if (!eerc) throw new Error("EERC not initialized");
+      return eerc.preloadCircuits(operations, onProgress);
+    },
+    [eerc],
+  );
 
   /**
    * check is the address is registered to the contract
@@ -414,22 +208,26 @@ export function useEERC(
    * @returns encrypted balance hook
    */
   const useEncryptedBalanceHook = (tokenAddress?: `0x${string}`) =>
-    useEncryptedBalance(eerc, contractAddress, wallet, tokenAddress);
+    useEncryptedBalance(eercClient, tokenAddress);
 
   /**
-   * check is user auditor
-   * @returns boolean - returns true if user is auditor
+   * returns the portfolio hook of a converter contract
+   * @returns portfolio hook
    */
-  const areYouAuditor = useMemo(() => {
-    if (!eerc || !eercState.auditorPublicKey.length) {
-      return false;
-    }
+  const usePortfolioHook = () => usePortfolio(eercClient);
 
-    return (
-      eercState.auditorPublicKey[0] === eerc?.publicKey[0] &&
-      eercState.auditorPublicKey[1] === eerc?.publicKey[1]
-    );
-  }, [eerc, eercState.auditorPublicKey]);
+  /**
+   * returns the transaction history hook of the user
+   * @param options - block range, token and page size
+   * @returns transaction history hook
+   */
+  const useTransactionHistoryHook = (options?: HistoryOptions) =>
+    useTransactionHistory(eercClient, options);
+
+  /**
+   * refetch the registration status and the auditor
+   */
+  const refresh = useCallback(() => eercClient?.refresh(), [eercClient]);
 
   /**
    * set contract auditor public key
@@ -449,19 +247,16 @@ export function useEERC(
     isAllDataFetched: eercState.isAllDataFetched, // is all data fetched
     isRegistered: eercState.isRegistered, // is user registered to the contract
     isConverter: eercState.isConverter, // is contract converter
-    publicKey: eerc?.publicKey ?? [], // user's public key
-    auditorAddress: auditorAddress as `0x${string}`, // auditor address
+    publicKey: eercState.publicKey, // user's public key
+    auditorAddress: eercState.auditorAddress as `0x${string}`, // auditor address
     owner: eercState.owner, // owner address
     auditorPublicKey: eercState.auditorPublicKey, // auditor's public key
-    isAuditorKeySet: Boolean(
-      eercState.auditorPublicKey.length > 0 &&
-        eercState.auditorPublicKey[0] !== 0n &&
-        eercState.auditorPublicKey[1] !== 0n,
-    ),
+    isAuditorKeySet: eercState.isAuditorKeySet,
     name: eercState.name, // EERC name, (only for stand-alone version)
     symbol: eercState.symbol, // EERC symbol, (only for stand-alone version)
-    isDecryptionKeySet,
-    areYouAuditor,
+    isDecryptionKeySet: eercState.isDecryptionKeySet,
+    keyStatus: eercState.keyStatus, // decryption key compared with the registered public key
+    areYouAuditor: eercState.areYouAuditor,
     hasBeenAuditor: eercState.hasBeenAuditor,
 
     // functions
@@ -469,13 +264,20 @@ export function useEERC(
     auditorDecrypt, // auditor decryption
     isAddressRegistered, // function for checking address is registered or not
     generateDecryptionKey, // generate decryption key
+    detectKeyDerivation, // find the key derivation mode of a registered user
+    verifyKey, // compare decryption key with the registered public key
+    unlockKeystore, // set decryption key from a keystore
+    exportKeystore, // encrypt decryption key into a keystore
     setContractAuditorPublicKey, // set contract auditor public key
+    preloadCircuits, // download circuit artifacts ahead of time
 
     // refetch
-    refetchEercUser,
-    refetchAuditor,
+    refetchEercUser: refresh,
+    refetchAuditor: refresh,
 
     // hooks
     useEncryptedBalance: useEncryptedBalanceHook,
+    usePortfolio: usePortfolioHook,
+    useTransactionHistory: useTransactionHistoryHook,
   };
 }
@@ -1,131 +1,58 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import type { WalletClient } from "viem";
-import { useBlockNumber, useReadContract } from "wagmi";
-import type { EERC } from "../EERC";
-import type { AmountPCT, EGCT, Point } from "../crypto/types";
-import { ENCRYPTED_ERC_ABI } from "../utils";
-import type { IBalanceState, UseEncryptedBalanceHookResult } from "./types";
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  type EERCClient,
+  INITIAL_BALANCE_STATE,
+  INITIAL_CLIENT_STATE,
+} from "../client";
+import {
+  type FormatAmountOptions,
+  type ParseAmountOptions,
+  formatAmount as formatUnits,
+  parseAmount as parseUnits,
+  toDustFreeAmount,
+} from "../helpers";
+import type {
+  AmountUnit,
+  ApproveAndDepositOptions,
+  BatchTransferRecipient,
+  DepositOptions,
+  SendMessageOptions,
+  UseEncryptedBalanceHookResult,
+  WaitForOperationOptions,
+} from "./types";
 
 export function useEncryptedBalance(
-  eerc: EERC | undefined,
-  contractAddress: string,
-  wallet: WalletClient,
+  eercClient: EERCClient | undefined,
   tokenAddress?: `0x${string}`,
 ): UseEncryptedBalanceHookResult {
-  const { data: blockNumber } = useBlockNumber({ watch: true });
-
-  const [balanceState, setBalanceState] = useState<IBalanceState>({
-    decrypted: 0n,
-    parsed: "",
-    encrypted: [],
-  });
-  const [auditorPublicKey, setAuditorPublicKey] = useState<bigint[]>([]);
-
-  const eercContract = useMemo(
-    () => ({
-      address: contractAddress as `0x${string}`,
-      abi: ENCRYPTED_ERC_ABI,
-    }),
-    [contractAddress],
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      eercClient?.subscribeBalance(tokenAddress, listener) ?? (() => {}),
+    [eercClient, tokenAddress],
+  );
+  const getSnapshot = useCallback(
+    () => eercClient?.getBalanceSnapshot(tokenAddress) ?? INITIAL_BALANCE_STATE,
+    [eercClient, tokenAddress],
+  );
+  const balanceState = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getSnapshot,
   );
 
-  /**
-   * fetch contract balance of the user
-   */
-  const { data: contractBalance, refetch: refetchBalance } = useReadContract({
-    ...eercContract,
-    functionName: tokenAddress ? "getBalanceFromTokenAddress" : "balanceOf",
-    args: [wallet?.account?.address, tokenAddress || 0n],
-    query: {
-      enabled: !!wallet?.account?.address,
-    },
-  });
-
-  /**
-   * fetch decimals of the eERC token
-   */
-  const { data: decimals } = useReadContract({
-    ...eercContract,
-    functionName: "decimals",
-    query: {
-      enabled: !!contractAddress,
-    },
-  }) as { data: bigint };
-
-  /**
-   * fetch auditor public key
-   */
-  const { data: auditorData, refetch: refetchAuditorPublicKey } =
-    useReadContract({
-      ...eercContract,
-      functionName: "auditorPublicKey",
-      args: [],
-    });
-
-  useEffect(() => {
-    if (!auditorData) return;
-    setAuditorPublicKey(auditorData as bigint[]);
-  }, [auditorData]);
-
-  // biome-ignore lint/correctness/useExhaustiveDependencies: we need to refetch balance every block
-  useEffect(() => {
-    // refetch balance is every block
-    refetchBalance();
-    refetchAuditorPublicKey();
-  }, [blockNumber]);
-
-  useEffect(() => {
-    let mounted = true;
-
-    if (
-      !contractBalance ||
-      !eerc ||
-      !eerc.isDecryptionKeySet ||
-      !wallet?.account?.address
-    ) {
-      return;
-    }
-
-    // Verify the decryption key matches the current wallet
-    // if not reset the balance state and return
-    if (eerc?.wallet?.account?.address !== wallet.account.address) {
-      setBalanceState({
-        decrypted: 0n,
-        parsed: "",
-        encrypted: [],
-      });
-      return;
-    }
-
-    const contractBalanceArray = contractBalance as bigint[];
-    const elGamalCipherText = contractBalanceArray[0] as unknown as EGCT;
-    const amountPCTs = contractBalanceArray[2] as unknown as AmountPCT[];
-    const balancePCT = contractBalanceArray[3] as unknown as bigint[];
-
-    const totalBalance = eerc.calculateTotalBalance(
-      elGamalCipherText,
-      amountPCTs,
-      balancePCT,
-    );
-
-    if (mounted) {
-      setBalanceState((prev) => ({
-        ...prev,
-        decrypted: totalBalance,
-        parsed: totalBalance.toString(),
-        encrypted: [
-          elGamalCipherText.c1.x,
-          elGamalCipherText.c1.y,
-          elGamalCipherText.c2.x,
-          elGamalCipherText.c2.y,
-        ],
-      }));
-    }
-
-    return () => {
-      mounted = false;
-    };
-  }, [contractBalance, eerc, wallet?.account?.address]);
+  const subscribeClient = useCallback(
+    (listener: () => void) => eercClient?.subscribe(listener) ?? (() => {}),
+    [eercClient],
+  );
+  const getClientSnapshot = useCallback(
+    () => eercClient?.getSnapshot() ?? INITIAL_CLIENT_STATE,
+    [eercClient],
+  );
+  const { eerc, auditorPublicKey, decimals } = useSyncExternalStore(
+    subscribeClient,
+    getClientSnapshot,
+    getClientSnapshot,
+  );
 
   /**
    * mint amount of encrypted tokens to the user
@@ -136,21 +63,10 @@ export function useEncryptedBalance(
    */
   const privateMint = useCallback(
     (recipient: `0x${string}`, amount: bigint, message?: string) => {
-      if (!eerc || !auditorPublicKey) throw new Error("EERC not initialized");
-      if (
-        !auditorPublicKey.length ||
-        auditorPublicKey.some((key) => key === 0n)
-      )
-        throw new Error("Auditor public key is not set");
-
-      return eerc.privateMint(
-        recipient,
-        amount,
-        auditorPublicKey as Point,
-        message,
-      );
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.privateMint(recipient, amount, message);
     },
-    [eerc, auditorPublicKey],
+    [eercClient],
   );
 
   /**
@@ -160,30 +76,10 @@ export function useEncryptedBalance(
    */
   const privateBurn = useCallback(
     (amount: bigint, message?: string) => {
-      try {
-        if (!eerc || !balanceState.encrypted.length)
-          throw new Error("EERC not initialized");
-        if (
-          !auditorPublicKey.length ||
-          auditorPublicKey.some((key) => key === 0n)
-        )
-          throw new Error("Auditor public key is not set");
-        if (balanceState.decrypted < amount || amount <= 0n)
-          throw new Error("Invalid amount");
-
-        return eerc.privateBurn(
-          amount,
-          balanceState.encrypted,
-          balanceState.decrypted,
-          auditorPublicKey as Point,
-          message,
-        );
-      } catch (error) {
-        console.error("Private burn failed", error);
-        throw error;
-      }
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.privateBurn(amount, message);
     },
-    [eerc, auditorPublicKey, balanceState],
+    [eercClient],
   );
 
   /**
@@ -194,58 +90,58 @@ export function useEncryptedBalance(
    */
   const privateTransfer = useCallback(
     (to: string, amount: bigint, message?: string) => {
-      try {
-        if (!eerc || !balanceState.encrypted.length)
-          throw new Error("EERC not initialized");
-        if (
-          !auditorPublicKey.length ||
-          auditorPublicKey.some((key) => key === 0n)
-        )
-          throw new Error("Auditor public key is not set");
-        if (balanceState.decrypted < amount || amount <= 0n)
-          throw new Error("Invalid amount");
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.transfer(to, amount, tokenAddress, message);
+    },
+    [eercClient, tokenAddress],
+  );
 
-        return eerc.transfer(
-          to,
-          amount,
-          balanceState.encrypted,
-          balanceState.decrypted,
-          auditorPublicKey,
-          tokenAddress,
-          message,
-        );
-      } catch (error) {
-        console.error("Private transfer failed", error);
-        throw error;
-      }
+  /**
+   * transfer encrypted tokens to multiple recipients, one transaction per recipient
+   * @param recipients - recipients with their amounts and messages
+   * @returns object - returns the result of every recipient
+   */
+  const batchTransfer = useCallback(
+    (recipients: BatchTransferRecipient[]) => {
+      if (!eercClient) throw new Error("EERC not initialized");
+      return eercClient.batchTransfer(recipients, tokenAddress);
     },
-    [eerc, auditorPublicKey, balanceState, tokenAddress],
+    [eercClient, tokenAddress],
   );
 
   /**
    * deposit amount of tokens to the user
-   * @param amount - amount to deposit
-   * @returns object - returns transaction hash
+   * @param amount - amount to deposit, in token decimals
+   * @param options - refuse the deposit if it leaves dust
+   * @returns object - returns transaction hash, credited amount and dust
    */
   const deposit = useCallback(
-    (amount: bigint, message?: string) => {
-      try {
-        if (!eerc) throw new Error("EERC not initialized");
-        if (!tokenAddress) throw new Error("Token address is not set");
-        if (!decimals) throw new Error("Decimals not set");
-        if (
-          !auditorPublicKey.length ||
-          auditorPublicKey.some((key) => key === 0n)
-        )
-          throw new Error("Auditor public key is not set");
+    (amount: bigint, message?: string, options?: DepositOptions) => {
+      if (!eercClient) throw new Error("EERC not initialized");
+      if (!tokenAddress) throw new Error("Token address is not set");
+      return eercClient.deposit(amount, tokenAddress, message, options);
+    },
+    [eercClient, tokenAddress],
+  );
 
-        return eerc.deposit(amount, tokenAddress, decimals, message);
-      } catch (error) {
-        console.error("Deposit failed", error);
-        throw error;
-      }
+  /**
+   * approve the token if needed and deposit amount of tokens to the user
+   * @param amount - amount to deposit, in token decimals
+   * @param options - exact or unlimited approval, permit and dust handling
+   * @returns object - returns transaction hashes, credited amount and dust
+   */
+  const approveAndDeposit = useCallback(
+    (amount: bigint, message?: string, options?: ApproveAndDepositOptions) => {
+      if (!eercClient) throw new Error("EERC not initialized");
+      if (!tokenAddress) throw new Error("Token address is not set");
+      return eercClient.approveAndDeposit(
+        amount,
+        tokenAddress,
+        message,
+        options,
+      );
     },
-    [eerc, tokenAddress, decimals, auditorPublicKey],
+    [eercClient, tokenAddress],
   );
 
   /**
@@ -255,29 +151,103 @@ export function useEncryptedBalance(
    */
   const withdraw = useCallback(
     (amount: bigint, message?: string) => {
-      try {
-        if (!eerc) throw new Error("EERC not initialized");
-        if (!tokenAddress) throw new Error("Token address is not set");
-        if (
-          !auditorPublicKey.length ||
-          auditorPublicKey.some((key) => key === 0n)
-        )
-          throw new Error("Auditor public key is not set");
+      if (!eercClient) throw new Error("EERC not initialized");
+      if (!tokenAddress) throw new Error("Token address is not set");
+      return eercClient.withdraw(amount, tokenAddress, message);
+    },
+    [eercClient, tokenAddress],
+  );
+
+  /**
+   * returns the decimals of the unit
+   * @param unit - eerc for the encrypted amounts, token for the underlying token amounts
+   * @returns decimals
+   */
+  const getDecimals = useCallback(
+    (unit: AmountUnit) => {
+      const unitDecimals =
+        unit === "token" ? balanceState.tokenDecimals : decimals;
+      if (unitDecimals === undefined) throw new Error("Decimals not set");
+      return unitDecimals;
+    },
+    [balanceState.tokenDecimals, decimals],
+  );
+
+  /**
+   * format the amount with the decimals of the unit
+   * @param amount - amount in the smallest unit
+   * @param options - locale and fraction digits
+   * @param unit - eerc for the encrypted amounts, token for the underlying token amounts
+   * @returns formatted amount
+   */
+  const formatAmount = useCallback(
+    (
+      amount: bigint,
+      options?: FormatAmountOptions,
+      unit: AmountUnit = "eerc",
+    ) => formatUnits(amount, getDecimals(unit), options),
+    [getDecimals],
+  );
+
+  /**
+   * parse the user entered amount with the decimals of the unit
+   * @param value - entered amount
+   * @param options - locale of the entered amount
+   * @param unit - eerc for the encrypted amounts, token for the underlying token amounts (e.g. deposit)
+   * @returns amount in the smallest unit
+   */
+  const parseAmount = useCallback(
+    (value: string, options?: ParseAmountOptions, unit: AmountUnit = "eerc") =>
+      parseUnits(value, getDecimals(unit), options),
+    [getDecimals],
+  );
+
+  /**
+   * round the deposit amount down to the largest amount that leaves no dust
+   * @param amount - amount to deposit, in token decimals
+   * @returns dust free amount
+   */
+  const getDustFreeAmount = useCallback(
+    (amount: bigint) =>
+      toDustFreeAmount(amount, getDecimals("token"), getDecimals("eerc")),
+    [getDecimals],
+  );
+
+  /**
+   * refetch the balance of the token
+   */
+  const refetchBalance = useCallback(
+    () => eercClient?.refreshBalance(tokenAddress),
+    [eercClient, tokenAddress],
+  );
+
+  /**
+   * sends an encrypted message to the user without moving any value
+   * @param to - recipient address
+   * @param message - message to encrypt
+   * @param options - send message options
+   * @returns object - returns transaction hash
+   */
+  const sendMessage = useCallback(
+    (to: `0x${string}`, message: string, options?: SendMessageOptions) => {
+      if (!eerc) throw new Error("EERC not initialized");
+      return eerc.sendMessage(to, message, options);
+    },
+    [eerc],
+  );
 
-        return eerc.withdraw(
-          amount,
-          balanceState.encrypted,
-          balanceState.decrypted,
-          auditorPublicKey,
-          tokenAddress,
-          message,
-        );
-      } catch (error) {
-        console.error("Withdraw failed", error);
-        throw error;
-      }
+  /**
+   * waits for the operation to be mined and decodes its events
+   * @param transactionHash - transaction hash returned by the operation
+   * @param options - confirmations and timeout
+   * @returns object - returns the receipt with the decoded events
+   */
+  const waitForOperation = useCallback(
+    (transactionHash: `0x${string}`, options?: WaitForOperationOptions) => {
+      if (!eerc) throw new Error("EERC not initialized");
+      return eerc.waitForOperation(transactionHash, options);
     },
-    [eerc, balanceState, tokenAddress, auditorPublicKey],
+    [eerc],
   );
 
   const decryptMessage = useCallback(
@@ -300,17 +270,31 @@ export function useEncryptedBalance(
     decryptedBalance: balanceState.decrypted, // decrypted balance of the user
     parsedDecryptedBalance: balanceState.parsed, // parsed decrypted balance of the user
     encryptedBalance: balanceState.encrypted, // encrypted balance of the user
+    pendingBalance: balanceState.pendingBalance, // balance after the operations that are not mined yet
+    pendingEncryptedBalance: balanceState.pendingEncrypted, // encrypted balance after the operations that are not mined yet
+    pendingOperations: balanceState.pendingOperations, // broadcast operations that are not in the fetched balance yet
+    queuedOperations: balanceState.queuedOperations, // operations waiting for the previous operations of the account
     auditorPublicKey, // auditor's public key
-    decimals, // decimals of the token
+    decimals: decimals as bigint, // decimals of the eERC token
+    tokenDecimals: balanceState.tokenDecimals, // decimals of the underlying token
+    stage: balanceState.progress?.stage ?? null, // stage of the last operation
+    progress: balanceState.progress, // progress of the last operation, with proof time and transaction hash
 
     // functions
     privateMint,
     privateBurn,
     privateTransfer,
+    batchTransfer,
     withdraw,
     deposit,
+    approveAndDeposit,
+    getDustFreeAmount,
+    sendMessage,
+    waitForOperation,
     decryptMessage,
     decryptTransaction,
+    formatAmount,
+    parseAmount,
     // refetch
     refetchBalance,
   };
@@ -0,0 +1,32 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { type EERCClient, INITIAL_PORTFOLIO_STATE } from "../client";
+import type { UsePortfolioHookResult } from "./types";
+
+export function usePortfolio(
+  eercClient: EERCClient | undefined,
+): UsePortfolioHookResult {
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      eercClient?.subscribePortfolio(listener) ?? (() => {}),
+    [eercClient],
+  );
+  const getSnapshot = useCallback(
+    () => eercClient?.getPortfolioSnapshot() ?? INITIAL_PORTFOLIO_STATE,
+    [eercClient],
+  );
+  const portfolio = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  /**
+   * refetch the tokens and their balances
+   */
+  const refetchPortfolio = useCallback(
+    () => eercClient?.refreshPortfolio(),
+    [eercClient],
+  );
+
+  return {
+    tokens: portfolio.tokens, // tokens of the converter contract with the decrypted balances
+    isFetched: portfolio.isFetched, // is portfolio fetched and decrypted
+    refetchPortfolio,
+  };
+}
@@ -0,0 +1,112 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { type EERCClient, INITIAL_CLIENT_STATE } from "../client";
+import type {
+  HistoryEntry,
+  HistoryOptions,
+  UseTransactionHistoryHookResult,
+} from "./types";
+
+export function useTransactionHistory(
+  eercClient: EERCClient | undefined,
+  options: HistoryOptions = {},
+): UseTransactionHistoryHookResult {
+  const subscribe = useCallback(
+    (listener: () => void) => eercClient?.subscribe(listener) ?? (() => {}),
+    [eercClient],
+  );
+  const getSnapshot = useCallback(
+    () => eercClient?.getSnapshot() ?? INITIAL_CLIENT_STATE,
+    [eercClient],
+  );
+  const { eerc, isDecryptionKeySet } = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getSnapshot,
+  );
+
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextToBlock, setNextToBlock] = useState<bigint | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFetched, setIsFetched] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // options are compared by value, results of an outdated request are dropped
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const requestRef = useRef(0);
+  const { tokenAddress, limit, maxWindows, fromBlock, toBlock } = options;
+
+  const fetchPage = useCallback(
+    async (pageToBlock?: bigint) => {
+      if (!eercClient) return;
+      const request = ++requestRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const page = await eercClient.getHistory({
+          ...optionsRef.current,
+          toBlock: pageToBlock ?? optionsRef.current.toBlock,
+        });
+        if (request !== requestRef.current) return;
+
+        setEntries((prev) =>
+          pageToBlock === undefined ? page.entries : [...prev, ...page.entries],
+        );
+        setNextToBlock(page.nextToBlock);
+        setIsFetched(true);
+      } catch (e) {
+        if (request === requestRef.current) setError(e as Error);
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [eercClient],
+  );
+
+  /**
+   * refetch the history from the latest block
+   */
+  const refetch = useCallback(() => fetchPage(), [fetchPage]);
+
+  /**
+   * fetch the older entries
+   */
+  const loadMore = useCallback(() => {
+    if (nextToBlock === undefined || isLoading) return Promise.resolve();
+    return fetchPage(nextToBlock);
+  }, [fetchPage, nextToBlock, isLoading]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: options are compared by value
+  useEffect(() => {
+    setEntries([]);
+    setNextToBlock(undefined);
+    setIsFetched(false);
+    if (eerc && isDecryptionKeySet) fetchPage();
+  }, [
+    eerc,
+    isDecryptionKeySet,
+    fetchPage,
+    tokenAddress,
+    limit,
+    maxWindows,
+    fromBlock,
+    toBlock,
+  ]);
+
+  return {
+    entries, // decrypted history of the user, latest first
+    isLoading,
+    isFetched, // is the first page fetched
+    hasMore: nextToBlock !== undefined, // are there older blocks to scan
+    error,
+    loadMore,
+    refetch,
+  };
+}
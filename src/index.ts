@@ -1,10 +1,147 @@
 import type { PublicClient, WalletClient } from "viem";
-import type { DecryptedTransaction, EERCHookResult } from "./hooks";
+import type {
+  AmountUnit,
+  ApproveAndDepositOptions,
+  ApproveAndDepositResult,
+  AuditorDecryptPage,
+  BatchTransferItemResult,
+  BatchTransferRecipient,
+  BatchTransferResult,
+  DecryptedBalance,
+  DecryptedTransaction,
+  DepositOptions,
+  DepositResult,
+  EERCEvents,
+  EERCHookResult,
+  EERCOptions,
+  HistoryEntry,
+  HistoryOptions,
+  HistoryPage,
+  KeyDerivationMatch,
+  KeyDerivationMode,
+  KeyStatus,
+  OperationEvent,
+  OperationProgress,
+  OperationReceipt,
+  OperationResult,
+  OperationStage,
+  PendingOperation,
+  PortfolioToken,
+  RegisterOptions,
+  SendMessageOptions,
+  UsePortfolioHookResult,
+  UseTransactionHistoryHookResult,
+  WaitForOperationOptions,
+} from "./hooks";
 
 export { EERC } from "./EERC";
+export {
+  ArtifactManager,
+  FileSystemArtifactStore,
+  IndexedDBArtifactStore,
+} from "./artifacts";
+export type {
+  ArtifactManagerOptions,
+  ArtifactProgress,
+  ArtifactStore,
+  CircuitArtifacts,
+} from "./artifacts";
+export { EERCClient } from "./client";
+export type {
+  EERCBalanceState,
+  EERCClientConfig,
+  EERCClientListener,
+  EERCClientState,
+  EERCPortfolioState,
+} from "./client";
 export { useEERC } from "./hooks";
-export { Poseidon } from "./crypto";
+export { BabyStepTable, Poseidon } from "./crypto";
+export type { SerializedBabyStepTable } from "./crypto";
+export {
+  EERCError,
+  EERCContractError,
+  EERCProofError,
+  EERCProofVerificationError,
+  EERCTransactionError,
+  EERCValidationError,
+  CONTRACT_ERROR_CODES,
+  decodeContractError,
+  LogScanner,
+  OperationQueue,
+  convertAmount,
+  formatAmount,
+  parseAmount,
+  splitDepositAmount,
+  toDustFreeAmount,
+  decryptKeystore,
+  encryptKeystore,
+  parseKeystore,
+} from "./helpers";
+export type {
+  EERCErrorCode,
+  EERCOperation,
+  DecodedContractError,
+  FormatAmountOptions,
+  Keystore,
+  KeystoreKdf,
+  KeystoreOptions,
+  LogScannerOptions,
+  ParseAmountOptions,
+  QueueContext,
+  QueuedOperation,
+} from "./helpers";
+export {
+  RemoteProver,
+  SnarkjsProver,
+  WorkerProver,
+  exposeProver,
+  readPublicSignal,
+  verifyProof,
+} from "./prover";
+export type {
+  CircuitInput,
+  ProofOperation,
+  ProveRequest,
+  ProveResult,
+  Prover,
+  RemoteProverOptions,
+  VerificationKey,
+  WorkerLike,
+} from "./prover";
 
 export type { PublicClient as CompatiblePublicClient };
 export type { WalletClient as CompatibleWalletClient };
-export type { DecryptedTransaction, EERCHookResult };
+export type {
+  AmountUnit,
+  ApproveAndDepositOptions,
+  ApproveAndDepositResult,
+  AuditorDecryptPage,
+  BatchTransferItemResult,
+  BatchTransferRecipient,
+  BatchTransferResult,
+  DecryptedBalance,
+  DecryptedTransaction,
+  DepositOptions,
+  DepositResult,
+  EERCEvents,
+  EERCHookResult,
+  EERCOptions,
+  HistoryEntry,
+  HistoryOptions,
+  HistoryPage,
+  KeyDerivationMatch,
+  KeyDerivationMode,
+  KeyStatus,
+  OperationEvent,
+  OperationProgress,
+  OperationReceipt,
+  OperationResult,
+  OperationStage,
+  PendingOperation,
+  PortfolioToken,
+  RegisterOptions,
+  SendMessageOptions,
+  UsePortfolioHookResult,
+  UseTransactionHistoryHookResult,
+  WaitForOperationOptions,
+};
@@ -0,0 +1,5 @@
+export * from "./remote";
+export * from "./snarkjs";
+export * from "./types";
+export * from "./verifier";
+export * from "./worker";
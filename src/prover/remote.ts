@@ -0,0 +1,57 @@
+import type { ProveRequest, ProveResult, Prover } from "./types";
+
+export type RemoteProverOptions = {
+  // endpoint that receives `{ operation, input }` and responds with `{ proof, publicSignals }`
+  url: string;
+  headers?: Record<string, string>;
+  // request timeout in ms
+  timeout?: number;
+  fetch?: typeof fetch;
+};
+
+/**
+ * posts the circuit inputs to a dedicated prover service
+ * @dev circuit inputs contain the private key of the user, only use a prover you trust
+ */
+export class RemoteProver implements Prover {
+  readonly remote = true;
+  private options: RemoteProverOptions;
+
+  constructor(options: RemoteProverOptions) {
+    this.options = options;
+  }
+
+  async prove({ operation, input }: ProveRequest): Promise<ProveResult> {
+    const { url, headers, timeout } = this.options;
+    const fetchFn = this.options.fetch ?? fetch;
+
+    const controller = new AbortController();
+    const timer = timeout
+      ? setTimeout(() => controller.abort(), timeout)
+      : undefined;
+
+    try {
+      const response = await fetchFn(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ operation, input }, (_, value) =>
+          typeof value === "bigint" ? value.toString() : value,
+        ),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Remote prover responded with ${response.status}`);
+      }
+
+      const { proof, publicSignals } = (await response.json()) as ProveResult;
+      if (!proof || !publicSignals) {
+        throw new Error("Invalid response from remote prover");
+      }
+
+      return { proof, publicSignals };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import * as snarkjs from "snarkjs";
+import type { ProveRequest, ProveResult, Prover } from "./types";
+
+/**
+ * generates the proof with snarkjs on the calling thread
+ */
+export class SnarkjsProver implements Prover {
+  async prove({ input, wasm, zkey }: ProveRequest): Promise<ProveResult> {
+    return snarkjs.groth16.fullProve(input, wasm, zkey);
+  }
+}
@@ -0,0 +1,40 @@
+import type { Groth16Proof, PublicSignals, ZKArtifact } from "snarkjs";
+
+export type ProofOperation =
+  | "REGISTER"
+  | "MINT"
+  | "WITHDRAW"
+  | "TRANSFER"
+  | "BURN";
+
+// biome-ignore lint/suspicious/noExplicitAny: circuit inputs are nested arrays of bigints
+export type CircuitInput = Record<string, any>;
+
+export type ProveRequest = {
+  operation: ProofOperation;
+  input: CircuitInput;
+  // resolved wasm and zkey, a path/url or the file content
+  wasm: ZKArtifact;
+  zkey: ZKArtifact;
+};
+
+export type ProveResult = {
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+};
+
+export type VerificationKey = {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  [key: string]: unknown;
+};
+
+/**
+ * generates groth16 proofs for the eERC circuits
+ */
+export interface Prover {
+  // true if the prover does not read the circuit artifacts, e.g. a prover service
+  readonly remote?: boolean;
+  prove(request: ProveRequest): Promise<ProveResult>;
+}
@@ -0,0 +1,103 @@
+import * as snarkjs from "snarkjs";
+import { EERCProofVerificationError } from "../helpers/errors";
+import { CIRCUIT_PUBLIC_INPUTS } from "../utils/constants";
+import type {
+  CircuitInput,
+  ProofOperation,
+  ProveResult,
+  VerificationKey,
+} from "./types";
+
+/**
+ * flattens the nested circuit input into the field elements of the signal
+ */
+const flatten = (value: unknown): bigint[] =>
+  Array.isArray(value)
+    ? value.flatMap(flatten)
+    : [BigInt(value as bigint | number | string)];
+
+/**
+ * verifies the proof locally before it is sent to the contract
+ * @param operation circuit of the proof
+ * @param input circuit inputs used to generate the proof
+ * @param result proof and public signals
+ * @param verificationKey groth16 verification key of the circuit
+ * @throws EERCProofVerificationError if the proof is not valid
+ */
+export const verifyProof = async (
+  operation: ProofOperation,
+  input: CircuitInput,
+  { proof, publicSignals }: ProveResult,
+  verificationKey: VerificationKey,
+): Promise<void> => {
+  if (publicSignals.length !== verificationKey.nPublic) {
+    throw new EERCProofVerificationError(
+      `${operation} proof has ${publicSignals.length} public signals, verification key expects ${verificationKey.nPublic}`,
+      { circuit: operation },
+    );
+  }
+
+  // compare the public signals with the inputs the sdk expects at each position
+  let index = 0;
+  for (const [signal, size] of CIRCUIT_PUBLIC_INPUTS[operation] ?? []) {
+    const expected = input[signal] === undefined ? [] : flatten(input[signal]);
+
+    for (let i = 0; i < size; i++, index++) {
+      const name = size > 1 ? `${signal}[${i}]` : signal;
+      const actual = publicSignals[index];
+
+      if (actual === undefined || expected[i] !== BigInt(actual)) {
+        throw new EERCProofVerificationError(
+          `${operation} public input ${name} at index ${index} does not match, expected ${expected[i]} got ${actual}`,
+          { circuit: operation, signal: name, index },
+        );
+      }
+    }
+  }
+
+  let isValid: boolean;
+  try {
+    isValid = await snarkjs.groth16.verify(
+      verificationKey,
+      publicSignals,
+      proof,
+    );
+  } catch (e) {
+    throw new EERCProofVerificationError(
+      `Failed to verify ${operation} proof`,
+      { circuit: operation, cause: e },
+    );
+  }
+
+  if (!isValid) {
+    throw new EERCProofVerificationError(
+      `${operation} proof is not valid for the verification key, circuit artifacts may not match`,
+      { circuit: operation },
+    );
+  }
+};
+
+/**
+ * reads the public input of the circuit from the proof public signals
+ * @param operation circuit of the proof
+ * @param signal name of the public input, e.g. ReceiverPCT
+ * @param publicSignals public signals of the proof
+ * @returns field elements of the public input
+ */
+export const readPublicSignal = (
+  operation: ProofOperation,
+  signal: string,
+  publicSignals: readonly (bigint | string)[],
+): bigint[] => {
+  let index = 0;
+  for (const [name, size] of CIRCUIT_PUBLIC_INPUTS[operation] ?? []) {
+    if (name === signal)
+      return publicSignals.slice(index, index + size).map((s) => BigInt(s));
+    index += size;
+  }
+
+  throw new EERCProofVerificationError(
+    `${operation} proof does not have the public input ${signal}`,
+    { circuit: operation, signal },
+  );
+};
@@ -0,0 +1,148 @@
+import { SnarkjsProver } from "./snarkjs";
+import type { ProveRequest, ProveResult, Prover } from "./types";
+
+/**
+ * minimal surface of a Web Worker, a node `worker_threads` Worker or their parent port
+ */
+export type WorkerLike = {
+  postMessage(message: unknown): void;
+  terminate?(): unknown;
+  // web
+  addEventListener?(
+    type: "message" | "error",
+    listener: (event: { data?: unknown; message?: string }) => void,
+  ): void;
+  // node
+  on?(event: "message" | "error", listener: (data: unknown) => void): void;
+};
+
+type ProverMessage = {
+  id: number;
+  request: ProveRequest;
+};
+
+type ProverResponse = {
+  id: number;
+  result?: ProveResult;
+  error?: string;
+};
+
+const listen = (
+  port: WorkerLike,
+  onMessage: (data: unknown) => void,
+  onError?: (error: Error) => void,
+) => {
+  if (port.on) {
+    port.on("message", onMessage);
+    if (onError) port.on("error", (e) => onError(e as Error));
+    return;
+  }
+  if (port.addEventListener) {
+    port.addEventListener("message", (event) => onMessage(event.data));
+    if (onError)
+      port.addEventListener("error", (event) =>
+        onError(new Error(event.message ?? "Prover worker failed")),
+      );
+    return;
+  }
+  throw new Error(
+    "Unsupported worker, expected a Web Worker or worker_threads",
+  );
+};
+
+/**
+ * generates the proof in a Web Worker or a node `worker_threads` Worker so the calling thread is not blocked
+ * the worker script has to call `exposeProver`
+ */
+export class WorkerProver implements Prover {
+  private createWorker: () => WorkerLike;
+  private worker?: WorkerLike;
+  private nextId = 0;
+  private pending = new Map<
+    number,
+    { resolve: (result: ProveResult) => void; reject: (e: Error) => void }
+  >();
+
+  /**
+   * @param createWorker factory of the worker, called lazily on the first proof
+   */
+  constructor(createWorker: () => WorkerLike) {
+    this.createWorker = createWorker;
+  }
+
+  prove(request: ProveRequest): Promise<ProveResult> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, request } satisfies ProverMessage);
+    });
+  }
+
+  /**
+   * terminates the worker and rejects the pending proofs
+   */
+  terminate() {
+    this.worker?.terminate?.();
+    this.worker = undefined;
+    this.rejectAll(new Error("Prover worker terminated"));
+  }
+
+  private getWorker(): WorkerLike {
+    if (this.worker) return this.worker;
+
+    const worker = this.createWorker();
+    listen(
+      worker,
+      (data) => {
+        const { id, result, error } = data as ProverResponse;
+        const pending = this.pending.get(id);
+        if (!pending) return;
+
+        this.pending.delete(id);
+        if (error !== undefined || !result) {
+          pending.reject(new Error(error ?? "Empty response from prover"));
+        } else {
+          pending.resolve(result);
+        }
+      },
+      (error) => {
+        // worker is not usable anymore, next proof creates a new one
+        this.worker = undefined;
+        this.rejectAll(error);
+      },
+    );
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private rejectAll(error: Error) {
+    for (const { reject } of this.pending.values()) reject(error);
+    this.pending.clear();
+  }
+}
+
+/**
+ * handles the proof requests of a `WorkerProver` inside the worker
+ * @param port `self` in a Web Worker, `parentPort` in node worker_threads
+ * @param prover prover that generates the proofs, snarkjs by default
+ */
+export const exposeProver = (
+  port: WorkerLike,
+  prover: Prover = new SnarkjsProver(),
+) => {
+  listen(port, async (data) => {
+    const { id, request } = data as ProverMessage;
+    try {
+      const result = await prover.prove(request);
+      port.postMessage({ id, result } satisfies ProverResponse);
+    } catch (e) {
+      port.postMessage({
+        id,
+        error: e instanceof Error ? e.message : String(e),
+      } satisfies ProverResponse);
+    }
+  });
+};
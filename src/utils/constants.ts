@@ -5,9 +5,132 @@ export const SHA_256_MAX_DIGEST =
 export const SUB_GROUP_ORDER =
   2736030358979909402780800718157159386076813972158567259200215660948447373041n;
 
+// upper bound of the balance recovered from the el-gamal ciphertext with baby-step giant-step
+export const MAX_DISCRETE_LOG_VALUE = 2n ** 32n;
+
+// public inputs of the circuits in the order of the proof public signals, with their sizes
+export const CIRCUIT_PUBLIC_INPUTS: Record<string, [string, number][]> = {
+  REGISTER: [
+    ["SenderPublicKey", 2],
+    ["SenderAddress", 1],
+    ["ChainID", 1],
+    ["RegistrationHash", 1],
+  ],
+  MINT: [
+    ["ReceiverPublicKey", 2],
+    ["ReceiverVTTC1", 2],
+    ["ReceiverVTTC2", 2],
+    ["ReceiverPCT", 4],
+    ["ReceiverPCTAuthKey", 2],
+    ["ReceiverPCTNonce", 1],
+    ["AuditorPublicKey", 2],
+    ["AuditorPCT", 4],
+    ["AuditorPCTAuthKey", 2],
+    ["AuditorPCTNonce", 1],
+    ["ChainID", 1],
+    ["NullifierHash", 1],
+  ],
+  BURN: [
+    ["SenderPublicKey", 2],
+    ["SenderBalanceC1", 2],
+    ["SenderBalanceC2", 2],
+    ["SenderVTBC1", 2],
+    ["SenderVTBC2", 2],
+    ["AuditorPublicKey", 2],
+    ["AuditorPCT", 4],
+    ["AuditorPCTAuthKey", 2],
+    ["AuditorPCTNonce", 1],
+  ],
+  WITHDRAW: [
+    ["SenderPublicKey", 2],
+    ["SenderBalanceC1", 2],
+    ["SenderBalanceC2", 2],
+    ["AuditorPublicKey", 2],
+    ["AuditorPCT", 4],
+    ["AuditorPCTAuthKey", 2],
+    ["AuditorPCTNonce", 1],
+    ["ValueToWithdraw", 1],
+  ],
+  TRANSFER: [
+    ["SenderPublicKey", 2],
+    ["SenderBalanceC1", 2],
+    ["SenderBalanceC2", 2],
+    ["SenderVTTC1", 2],
+    ["SenderVTTC2", 2],
+    ["ReceiverPublicKey", 2],
+    ["ReceiverVTTC1", 2],
+    ["ReceiverVTTC2", 2],
+    ["ReceiverPCT", 4],
+    ["ReceiverPCTAuthKey", 2],
+    ["ReceiverPCTNonce", 1],
+    ["AuditorPublicKey", 2],
+    ["AuditorPCT", 4],
+    ["AuditorPCTAuthKey", 2],
+    ["AuditorPCTNonce", 1],
+  ],
+};
+
 export const MESSAGES = {
   REGISTER: (user: string) =>
     `eERC\nRegistering user with\n Address:${user.toLowerCase()}`,
+  // signature of this message encrypts the keystore when no password is given
+  KEYSTORE: (user: string) =>
+    `eERC\nUnlocking keystore of\n Address:${user.toLowerCase()}`,
+};
+
+// eip-712 counterpart of MESSAGES.REGISTER, bound to the chain and the registrar contract
+export const TYPED_MESSAGES = {
+  REGISTER: (
+    user: `0x${string}`,
+    chainId: number,
+    registrarAddress: `0x${string}`,
+  ) => ({
+    domain: {
+      name: "eERC",
+      version: "1",
+      chainId,
+      verifyingContract: registrarAddress,
+    },
+    types: {
+      Register: [
+        { name: "user", type: "address" },
+        { name: "message", type: "string" },
+      ],
+    },
+    primaryType: "Register" as const,
+    message: {
+      user,
+      message: "Deriving the eERC decryption key",
+    },
+  }),
+  PERMIT: (
+    domain: {
+      name: string;
+      version: string;
+      chainId: number;
+      verifyingContract: `0x${string}`;
+    },
+    message: {
+      owner: `0x${string}`;
+      spender: `0x${string}`;
+      value: bigint;
+      nonce: bigint;
+      deadline: bigint;
+    },
+  ) => ({
+    domain,
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit" as const,
+    message,
+  }),
 };
 
 // burn user is used for private burn transactions
@@ -149,6 +272,76 @@ export const PRIVATE_MESSAGE_EVENT = {
   type: "event",
 };
 
+export const DEPOSIT_EVENT = {
+  anonymous: false,
+  inputs: [
+    {
+      indexed: true,
+      internalType: "address",
+      name: "user",
+      type: "address",
+    },
+    {
+      indexed: false,
+      internalType: "uint256",
+      name: "amount",
+      type: "uint256",
+    },
+    {
+      indexed: false,
+      internalType: "uint256",
+      name: "dust",
+      type: "uint256",
+    },
+    {
+      indexed: false,
+      internalType: "uint256",
+      name: "tokenId",
+      type: "uint256",
+    },
+  ],
+  name: "Deposit",
+  type: "event",
+};
+
+export const WITHDRAW_EVENT = {
+  anonymous: false,
+  inputs: [
+    {
+      indexed: true,
+      internalType: "address",
+      name: "user",
+      type: "address",
+    },
+    {
+      indexed: false,
+      internalType: "uint256",
+      name: "amount",
+      type: "uint256",
+    },
+    {
+      indexed: false,
+      internalType: "uint256",
+      name: "tokenId",
+      type: "uint256",
+    },
+    {
+      indexed: false,
+      internalType: "uint256[7]",
+      name: "auditorPCT",
+      type: "uint256[7]",
+    },
+    {
+      indexed: true,
+      internalType: "address",
+      name: "auditorAddress",
+      type: "address",
+    },
+  ],
+  name: "Withdraw",
+  type: "event",
+};
+
 export const PRIVATE_MINT_WITH_MESSAGE_ABI = [
   {
     inputs: [
@@ -409,3 +602,58 @@ export const PRIVATE_BURN_ABI = [
     type: "function",
   },
 ];
+
+// eip-2612 permit and eip-5267 domain of the erc20 tokens
+export const ERC20_PERMIT_ABI = [
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      { internalType: "bytes1", name: "fields", type: "bytes1" },
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "version", type: "string" },
+      { internalType: "uint256", name: "chainId", type: "uint256" },
+      { internalType: "address", name: "verifyingContract", type: "address" },
+      { internalType: "bytes32", name: "salt", type: "bytes32" },
+      { internalType: "uint256[]", name: "extensions", type: "uint256[]" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "owner", type: "address" },
+      { internalType: "address", name: "spender", type: "address" },
+      { internalType: "uint256", name: "value", type: "uint256" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+      { internalType: "uint8", name: "v", type: "uint8" },
+      { internalType: "bytes32", name: "r", type: "bytes32" },
+      { internalType: "bytes32", name: "s", type: "bytes32" },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1 @@
+export const ARTIFACTS_BASE_URL = "http://localhost/";
@@ -0,0 +1,108 @@
+import {
+  convertAmount,
+  formatAmount,
+  parseAmount,
+  splitDepositAmount,
+  toDustFreeAmount,
+} from "../../src/helpers/amount";
+import { EERCValidationError } from "../../src/helpers/errors";
+
+describe("formatAmount", () => {
+  it("formats with the given decimals", () => {
+    expect(formatAmount(12345n, 2)).toBe("123.45");
+    expect(formatAmount(12300n, 2)).toBe("123");
+    expect(formatAmount(5n, 6)).toBe("0.000005");
+    expect(formatAmount(42n, 0)).toBe("42");
+    expect(formatAmount(-150n, 2n)).toBe("-1.5");
+  });
+
+  it("pads and truncates the fraction", () => {
+    expect(formatAmount(12300n, 2, { minimumFractionDigits: 2 })).toBe(
+      "123.00",
+    );
+    expect(formatAmount(1999999n, 6, { maximumFractionDigits: 2 })).toBe(
+      "1.99",
+    );
+  });
+
+  it("uses the separators of the locale", () => {
+    expect(formatAmount(123456789n, 2, { locale: "en-US" })).toBe(
+      "1,234,567.89",
+    );
+    expect(formatAmount(123456789n, 2, { locale: "de-DE" })).toBe(
+      "1.234.567,89",
+    );
+    expect(
+      formatAmount(123456789n, 2, { locale: "en-US", useGrouping: false }),
+    ).toBe("1234567.89");
+  });
+});
+
+describe("parseAmount", () => {
+  it("parses with the given decimals", () => {
+    expect(parseAmount("123.45", 2)).toBe(12345n);
+    expect(parseAmount("123", 2)).toBe(12300n);
+    expect(parseAmount(".5", 2)).toBe(50n);
+    expect(parseAmount(" 1. ", 6)).toBe(1000000n);
+  });
+
+  it("parses the separators of the locale", () => {
+    expect(parseAmount("1,234,567.89", 2, { locale: "en-US" })).toBe(
+      123456789n,
+    );
+    expect(parseAmount("1.234.567,89", 2, { locale: "de-DE" })).toBe(
+      123456789n,
+    );
+  });
+
+  it("round trips the formatted amount", () => {
+    const amount = 987654321n;
+    for (const locale of ["en-US", "de-DE", "fr-FR"]) {
+      expect(
+        parseAmount(formatAmount(amount, 6, { locale }), 6, { locale }),
+      ).toBe(amount);
+    }
+  });
+
+  it("rejects invalid amounts", () => {
+    for (const value of ["", ".", "-1", "1e5", "abc", "1.2.3"]) {
+      expect(() => parseAmount(value, 2)).toThrow(EERCValidationError);
+    }
+    expect(() => parseAmount("1.234", 2)).toThrow(
+      "Amount can not have more than 2 decimals!",
+    );
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts between decimals", () => {
+    expect(convertAmount(1234567n, 6, 2)).toBe(123n);
+    expect(convertAmount(123n, 2, 18)).toBe(1230000000000000000n);
+    expect(convertAmount(123n, 2, 2)).toBe(123n);
+  });
+});
+
+describe("splitDepositAmount", () => {
+  it("reports the dust refunded by the contract", () => {
+    expect(splitDepositAmount(1234567n, 6, 2)).toEqual({
+      amount: 123n,
+      dust: 4567n,
+    });
+    expect(splitDepositAmount(1230000n, 6, 2)).toEqual({
+      amount: 123n,
+      dust: 0n,
+    });
+  });
+
+  it("has no dust when the token has fewer decimals", () => {
+    expect(splitDepositAmount(5n, 0, 2)).toEqual({ amount: 500n, dust: 0n });
+  });
+});
+
+describe("toDustFreeAmount", () => {
+  it("rounds down to the largest dust free amount", () => {
+    expect(toDustFreeAmount(1234567n, 6, 2)).toBe(1230000n);
+    expect(toDustFreeAmount(1230000n, 6, 2)).toBe(1230000n);
+    expect(toDustFreeAmount(9999n, 6, 2)).toBe(0n);
+  });
+});
@@ -0,0 +1,182 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { sha256 } from "js-sha256";
+import {
+  ArtifactManager,
+  type ArtifactProgress,
+  type ArtifactStore,
+  FileSystemArtifactStore,
+} from "../../src/artifacts";
+import { EERCValidationError } from "../../src/helpers";
+import type { CircuitURLs } from "../../src/hooks/types";
+
+const wasm = new Uint8Array([1, 2, 3, 4]);
+const zkey = new Uint8Array([5, 6, 7, 8, 9]);
+
+const circuit = (name: string) => ({
+  wasm: `https://cdn.example/${name}.wasm`,
+  zkey: `https://cdn.example/${name}.zkey`,
+});
+
+const circuitURLs: CircuitURLs = {
+  register: circuit("register"),
+  transfer: {
+    ...circuit("transfer"),
+    wasmHash: sha256(wasm),
+    zkeyHash: sha256(zkey),
+  },
+  mint: circuit("mint"),
+  withdraw: circuit("withdraw"),
+  burn: circuit("burn"),
+};
+
+const respond = (data: Uint8Array) =>
+  new Response(data, {
+    headers: { "content-length": String(data.length) },
+  });
+
+const memoryStore = (): ArtifactStore & { data: Map<string, Uint8Array> } => {
+  const data = new Map<string, Uint8Array>();
+  return {
+    data,
+    get: async (key) => data.get(key),
+    set: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+};
+
+describe("ArtifactManager", () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (url) =>
+        respond(String(url).endsWith(".wasm") ? wasm : zkey),
+      );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it("downloads the artifacts once and reports the progress", async () => {
+    const manager = new ArtifactManager(circuitURLs);
+    const progress: ArtifactProgress[] = [];
+
+    const artifacts = await manager.load("TRANSFER", (p) => progress.push(p));
+    await manager.load("TRANSFER");
+
+    expect(artifacts).toEqual({ wasm, zkey });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(progress.at(-1)).toMatchObject({ operation: "TRANSFER" });
+    expect(progress).toContainEqual({
+      operation: "TRANSFER",
+      file: "zkey",
+      loaded: zkey.length,
+      total: zkey.length,
+    });
+  });
+
+  it("rejects artifacts that do not match the hash and retries later", async () => {
+    fetchMock.mockImplementationOnce(async () => respond(new Uint8Array([0])));
+    const manager = new ArtifactManager(circuitURLs);
+
+    await expect(manager.load("TRANSFER")).rejects.toMatchObject({
+      code: "ARTIFACT_HASH_MISMATCH",
+    });
+    await expect(manager.load("TRANSFER")).resolves.toEqual({ wasm, zkey });
+  });
+
+  it("uses the store before downloading", async () => {
+    const store = memoryStore();
+    await new ArtifactManager(circuitURLs, { store }).preload(["MINT"]);
+    expect(store.data.size).toBe(2);
+
+    fetchMock.mockClear();
+    const artifacts = await new ArtifactManager(circuitURLs, { store }).load(
+      "MINT",
+    );
+
+    expect(artifacts).toEqual({ wasm, zkey });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("resolves relative urls against the base url", async () => {
+    const manager = new ArtifactManager(
+      { ...circuitURLs, burn: { wasm: "/burn.wasm", zkey: "/burn.zkey" } },
+      { baseURL: "https://app.example/assets/" },
+    );
+
+    await manager.load("BURN");
+    expect(fetchMock).toHaveBeenCalledWith("https://app.example/burn.wasm");
+  });
+
+  it("loads the verification key from its url", async () => {
+    const verificationKey = { protocol: "groth16", curve: "bn128", nPublic: 5 };
+    fetchMock.mockImplementation(async () =>
+      respond(new TextEncoder().encode(JSON.stringify(verificationKey))),
+    );
+    const manager = new ArtifactManager({
+      ...circuitURLs,
+      register: {
+        ...circuitURLs.register,
+        verificationKey: "https://cdn.example/register.vkey.json",
+      },
+    });
+
+    expect(await manager.loadVerificationKey("REGISTER")).toEqual(
+      verificationKey,
+    );
+    expect(await manager.loadVerificationKey("MINT")).toBeUndefined();
+  });
+
+  it("throws if the circuit is missing", () => {
+    const manager = new ArtifactManager({
+      ...circuitURLs,
+      withdraw: { wasm: "", zkey: "" },
+    });
+
+    expect(() => manager.getCircuit("WITHDRAW")).toThrow(EERCValidationError);
+  });
+});
+
+describe("FileSystemArtifactStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "eerc-artifacts-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("persists artifacts on disk", async () => {
+    const store = new FileSystemArtifactStore(join(directory, "cache"));
+
+    expect(await store.get("transfer.wasm")).toBeUndefined();
+    await store.set("transfer.wasm", wasm);
+    expect(
+      await new FileSystemArtifactStore(join(directory, "cache")).get(
+        "transfer.wasm",
+      ),
+    ).toEqual(wasm);
+  });
+
+  it("reads local artifacts without downloading", async () => {
+    const wasmPath = join(directory, "register.wasm");
+    const zkeyPath = join(directory, "register.zkey");
+    await writeFile(wasmPath, wasm);
+    await writeFile(zkeyPath, zkey);
+
+    const manager = new ArtifactManager({
+      ...circuitURLs,
+      register: { wasm: wasmPath, zkey: zkeyPath },
+    });
+
+    await expect(manager.load("REGISTER")).resolves.toEqual({ wasm, zkey });
+  });
+});
@@ -0,0 +1,50 @@
+import { BabyJub } from "../../src/crypto/babyjub";
+import { BabyStepTable, ceilSqrt } from "../../src/crypto/bsgs";
+import { FF } from "../../src/crypto/ff";
+import { SNARK_FIELD_SIZE } from "../../src/utils";
+
+describe("BSGS", () => {
+  const field = new FF(SNARK_FIELD_SIZE);
+  const curve = new BabyJub(field);
+  const maxValue = 10_000n;
+  const table = curve.generateBabyStepTable(Number(ceilSqrt(maxValue + 1n)));
+
+  test("ceilSqrt should handle properly", () => {
+    expect(ceilSqrt(0n)).toBe(0n);
+    expect(ceilSqrt(1n)).toBe(1n);
+    expect(ceilSqrt(16n)).toBe(4n);
+    expect(ceilSqrt(17n)).toBe(5n);
+    expect(ceilSqrt(2n ** 32n)).toBe(2n ** 16n);
+  });
+
+  test("should solve discrete log for values in the range", () => {
+    for (const value of [0n, 1n, 100n, 101n, 4242n, maxValue]) {
+      const point = curve.mulWithScalar(curve.Base8, value);
+      expect(curve.discreteLog(point, maxValue, table)).toBe(value);
+    }
+  });
+
+  test("should return null for values out of the range", () => {
+    const point = curve.mulWithScalar(curve.Base8, maxValue + 1n);
+    expect(curve.discreteLog(point, maxValue, table)).toBeNull();
+  });
+
+  test("should decrypt el-gamal ciphertext of a balance", async () => {
+    const sk = await BabyJub.generateRandomValue();
+    const pk = curve.generatePublicKey(sk);
+    const { cipher } = await curve.elGamalEncryptionWithScalar(pk, 1337n);
+
+    const decrypted = curve.elGamalDecryption(sk, cipher);
+    expect(curve.discreteLog(decrypted, maxValue, table)).toBe(1337n);
+  });
+
+  test("should serialize and deserialize the table", () => {
+    const restored = BabyStepTable.deserialize(
+      JSON.parse(JSON.stringify(table.serialize())),
+    );
+    const point = curve.mulWithScalar(curve.Base8, 777n);
+
+    expect(restored.size).toBe(table.size);
+    expect(curve.discreteLog(point, maxValue, restored)).toBe(777n);
+  });
+});
@@ -0,0 +1,384 @@
+import type { PublicClient, WalletClient } from "viem";
+import { EERCClient } from "../../src/client";
+import type { EERCOptions } from "../../src/hooks/types";
+
+jest.mock("../../src/EERC", () => {
+  const { EventEmitter } = jest.requireActual("../../src/helpers/emitter");
+
+  class EERC extends EventEmitter {
+    publicKey: bigint[] = [];
+    keyStatus?: string;
+
+    constructor(...args: unknown[]) {
+      super();
+      if (args[6]) this.publicKey = [5n, 6n];
+    }
+
+    get isDecryptionKeySet() {
+      return this.publicKey.length > 0;
+    }
+
+    async generateDecryptionKey() {
+      this.publicKey = [5n, 6n];
+      return "key";
+    }
+
+    async verifyKey() {
+      this.keyStatus = this.publicKey.length ? "matches" : "missing";
+      return this.keyStatus;
+    }
+
+    async fetchPublicKey() {
+      return [5n, 6n];
+    }
+
+    hasBeenAuditor = jest.fn(async () => false);
+
+    calculateTotalBalance() {
+      return 42n;
+    }
+
+    async getPortfolio() {
+      return [
+        {
+          tokenAddress: "0x2222222222222222222222222222222222222222",
+          tokenId: 1n,
+          symbol: "USDC",
+          decimals: 6,
+          balance: 42n,
+          underlyingBalance: 420000n,
+          encryptedBalance: [1n, 2n, 3n, 4n],
+        },
+      ];
+    }
+
+    report(progress: unknown) {
+      this.emit("progress", progress);
+    }
+
+    announce(operation: unknown) {
+      this.emit("pending", operation);
+    }
+  }
+
+  return { EERC };
+});
+
+const account = "0x1111111111111111111111111111111111111111";
+const token = "0x2222222222222222222222222222222222222222";
+
+const egct = { c1: { x: 1n, y: 2n }, c2: { x: 3n, y: 4n } };
+
+const pendingTransfer = {
+  operation: "transfer",
+  tokenAddress: token,
+  transactionHash: "0x5555",
+  amount: 40n,
+  spentCiphertext: [1n, 2n, 3n, 4n],
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createPublicClient = () => {
+  let onBlockNumber: (() => void) | undefined;
+  const unwatch = jest.fn();
+
+  const client = {
+    readContract: jest.fn(async ({ address, functionName }) => {
+      switch (functionName) {
+        case "name":
+          return "Encrypted";
+        case "symbol":
+          return "eERC";
+        case "registrar":
+          return "0x3333333333333333333333333333333333333333";
+        case "isConverter":
+          return true;
+        case "owner":
+          return account;
+        case "decimals":
+          return address === token ? 6 : 2;
+        case "auditorPublicKey":
+          return [5n, 6n];
+        case "auditor":
+          return account;
+        case "getBalanceFromTokenAddress":
+        case "balanceOf":
+          return [egct, 0n, [], []];
+        default:
+          throw new Error(`unexpected call ${functionName}`);
+      }
+    }),
+    watchBlockNumber: jest.fn((params) => {
+      onBlockNumber = params.onBlockNumber;
+      return unwatch;
+    }),
+    waitForTransactionReceipt: jest.fn(),
+    getTransactionReceipt: jest.fn(async () => {
+      throw new Error("receipt not found");
+    }),
+    getBlockNumber: jest.fn(async () => 100n),
+  };
+
+  return {
+    client: client as unknown as PublicClient,
+    readContract: client.readContract,
+    waitForTransactionReceipt: client.waitForTransactionReceipt,
+    getBlockNumber: client.getBlockNumber,
+    unwatch,
+    mineBlock: () => onBlockNumber?.(),
+  };
+};
+
+const createClient = (decryptionKey?: string, options?: EERCOptions) => {
+  const publicClient = createPublicClient();
+  const client = new EERCClient({
+    client: publicClient.client,
+    wallet: { account: { address: account } } as unknown as WalletClient,
+    contractAddress: "0x4444444444444444444444444444444444444444",
+    circuitURLs: {} as never,
+    decryptionKey,
+    options,
+  });
+  return { ...publicClient, client };
+};
+
+describe("EERCClient", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  test("loads the contract, registration and auditor state", async () => {
+    const { client } = createClient("key");
+    const listener = jest.fn();
+    client.subscribe(listener);
+
+    await client.start();
+    const state = client.getSnapshot();
+
+    expect(listener).toHaveBeenCalled();
+    expect(state).toMatchObject({
+      isInitialized: true,
+      isAllDataFetched: true,
+      isConverter: true,
+      isRegistered: true,
+      name: "Encrypted",
+      symbol: "eERC",
+      decimals: 2,
+      isAuditorKeySet: true,
+      areYouAuditor: true,
+      keyStatus: "matches",
+    });
+  });
+
+  test("checks the auditor in the recent blocks if the start block is not set", async () => {
+    const { client, getBlockNumber } = createClient("key");
+    getBlockNumber.mockResolvedValue(5000n);
+
+    await client.start();
+
+    expect(client.eerc?.hasBeenAuditor).toHaveBeenCalledWith({
+      fromBlock: 4000n,
+      toBlock: 5000n,
+    });
+  });
+
+  test("checks the auditor from the configured start block", async () => {
+    const { client } = createClient("key", { logScanner: { fromBlock: 123n } });
+
+    await client.start();
+
+    expect(client.eerc?.hasBeenAuditor).toHaveBeenCalledWith(undefined);
+  });
+
+  test("keeps the snapshot when nothing changes", async () => {
+    const { client, mineBlock } = createClient("key");
+    await client.start();
+
+    const snapshot = client.getSnapshot();
+    const listener = jest.fn();
+    client.subscribe(listener);
+    await mineBlock();
+
+    expect(client.getSnapshot()).toBe(snapshot);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("tracks the balances while they have listeners", async () => {
+    const { client, readContract, mineBlock } = createClient("key");
+    await client.start();
+
+    const listener = jest.fn();
+    const unsubscribe = client.subscribeBalance(token, listener);
+    await client.refreshBalance(token);
+
+    expect(client.getBalanceSnapshot(token)).toMatchObject({
+      decrypted: 42n,
+      parsed: "0.42",
+      tokenDecimals: 6,
+      encrypted: [1n, 2n, 3n, 4n],
+      isFetched: true,
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    readContract.mockClear();
+    await mineBlock();
+
+    expect(readContract).not.toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "getBalanceFromTokenAddress" }),
+    );
+    expect(client.getBalanceSnapshot(token).isFetched).toBe(false);
+  });
+
+  test("reports the operation progress to the balance of its token", async () => {
+    const { client } = createClient("key");
+    await client.start();
+
+    client.subscribeBalance(token, () => {});
+    client.subscribeBalance(undefined, () => {});
+
+    const progress = { id: 1, operation: "deposit", stage: "proving" };
+    (client.eerc as unknown as { report(p: unknown): void }).report({
+      ...progress,
+      tokenAddress: token.toUpperCase().replace("0X", "0x"),
+    });
+
+    expect(client.getBalanceSnapshot(token).progress).toMatchObject(progress);
+    expect(client.getBalanceSnapshot().progress).toBeNull();
+  });
+
+  test("decrypts the balances after the key is generated", async () => {
+    const { client } = createClient();
+    await client.start();
+    client.subscribeBalance(token, () => {});
+    await client.refreshBalance(token);
+
+    expect(client.getSnapshot().isDecryptionKeySet).toBe(false);
+    expect(client.getBalanceSnapshot(token).isFetched).toBe(false);
+
+    await client.generateDecryptionKey();
+
+    expect(client.getSnapshot()).toMatchObject({
+      isDecryptionKeySet: true,
+      publicKey: [5n, 6n],
+      areYouAuditor: true,
+    });
+    expect(client.getBalanceSnapshot(token).decrypted).toBe(42n);
+  });
+
+  test("keeps the portfolio snapshot while the balances do not change", async () => {
+    const { client, mineBlock } = createClient("key");
+    await client.start();
+
+    const listener = jest.fn();
+    client.subscribePortfolio(listener);
+    await client.refreshPortfolio();
+
+    const portfolio = client.getPortfolioSnapshot();
+    expect(portfolio.isFetched).toBe(true);
+    expect(portfolio.tokens[0]).toMatchObject({
+      symbol: "USDC",
+      balance: 42n,
+      underlyingBalance: 420000n,
+    });
+
+    await mineBlock();
+
+    expect(client.getPortfolioSnapshot()).toBe(portfolio);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("stops watching the blocks", async () => {
+    const { client, unwatch } = createClient("key");
+    await client.start();
+    client.stop();
+
+    expect(unwatch).toHaveBeenCalled();
+  });
+
+  test("validates the amount against the tracked balance", async () => {
+    const { client } = createClient("key");
+    await client.start();
+
+    expect(() => client.transfer(account, 1n, token)).toThrow(
+      expect.objectContaining({ code: "NOT_INITIALIZED" }),
+    );
+
+    client.subscribeBalance(token, () => {});
+    await client.refreshBalance(token);
+
+    expect(() => client.transfer(account, 0n, token)).toThrow(
+      expect.objectContaining({ code: "INVALID_AMOUNT" }),
+    );
+    expect(() => client.transfer(account, 43n, token)).toThrow(
+      expect.objectContaining({ code: "INSUFFICIENT_BALANCE" }),
+    );
+    expect(() =>
+      client.batchTransfer(
+        [
+          { to: account, amount: 30n },
+          { to: account, amount: 13n },
+        ],
+        token,
+      ),
+    ).toThrow("Insufficient balance");
+  });
+
+  test("spends from the pending balance until the operation is mined", async () => {
+    const { client, waitForTransactionReceipt, getBlockNumber } =
+      createClient("key");
+    await client.start();
+    client.subscribeBalance(token, () => {});
+    await client.refreshBalance(token);
+
+    let mine: (receipt: unknown) => void = () => {};
+    waitForTransactionReceipt.mockReturnValue(
+      new Promise((resolve) => {
+        mine = resolve;
+      }),
+    );
+    (client.eerc as unknown as { announce(o: unknown): void }).announce(
+      pendingTransfer,
+    );
+
+    expect(client.getBalanceSnapshot(token)).toMatchObject({
+      decrypted: 42n,
+      pendingBalance: 2n,
+      pendingOperations: [pendingTransfer],
+    });
+    expect(() => client.transfer(account, 3n, token)).toThrow(
+      "Insufficient balance",
+    );
+
+    getBlockNumber.mockResolvedValue(101n);
+    mine({ status: "success", transactionHash: "0x5555", blockNumber: 101n });
+    await flush();
+
+    expect(client.getBalanceSnapshot(token)).toMatchObject({
+      pendingBalance: 42n,
+      pendingOperations: [],
+    });
+  });
+
+  test("rolls back the pending operation when the transaction reverts", async () => {
+    const { client, waitForTransactionReceipt } = createClient("key");
+    await client.start();
+    client.subscribeBalance(token, () => {});
+    await client.refreshBalance(token);
+
+    waitForTransactionReceipt.mockResolvedValue({
+      status: "reverted",
+      transactionHash: "0x5555",
+    });
+    (client.eerc as unknown as { announce(o: unknown): void }).announce(
+      pendingTransfer,
+    );
+    await flush();
+
+    expect(client.getBalanceSnapshot(token)).toMatchObject({
+      pendingBalance: 42n,
+      pendingOperations: [],
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import type { PublicClient, WalletClient } from "viem";
+import type { EERC } from "../../src/EERC";
+import { EERCClient } from "../../src/client";
+import { formatKeyForCurve } from "../../src/crypto/key";
+import {
+  CONTRACT,
+  KEY,
+  OTHER_RECEIVER,
+  OTHER_RECEIVER_KEY,
+  RECEIVER,
+  REGISTRAR,
+  TOKEN,
+  circuitURLs,
+  createEERC,
+  createReceipt,
+  encryptBalance,
+  encryptPCT,
+  publicKeyOf,
+  sentTransactionHash,
+} from "../eerc/mocks";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * decrypts the el gamal balance of the user to its point, amounts are compared as Base8 multiples
+ */
+const balancePoint = (eerc: EERC, encrypted: bigint[]) => {
+  const [c1x, c1y, c2x, c2y] = encrypted;
+  return eerc.curve.elGamalDecryption(formatKeyForCurve(KEY), {
+    c1: [c1x, c1y],
+    c2: [c2x, c2y],
+  });
+};
+
+/**
+ * creates the client on the sdk with mocked viem clients, the contract stores the given balance
+ */
+const setup = async (initialBalance: bigint) => {
+  let balance: unknown[] = [];
+
+  const {
+    eerc,
+    client: publicClient,
+    wallet,
+    prover,
+  } = createEERC({
+    contract: {
+      name: () => "Encrypted",
+      symbol: () => "eERC",
+      registrar: () => REGISTRAR,
+      isConverter: () => true,
+      owner: () => OTHER_RECEIVER,
+      decimals: ({ address }) => (address === TOKEN ? 6 : 2),
+      auditorPublicKey: () => publicKeyOf(eerc, OTHER_RECEIVER_KEY),
+      auditor: () => OTHER_RECEIVER,
+      getBalanceFromTokenAddress: () => balance,
+    },
+  });
+
+  // stores the balance as the contract returns it, with its balance pct
+  const setBalance = async (amount: bigint) => {
+    const [c1x, c1y, c2x, c2y] = await encryptBalance(eerc, KEY, amount);
+    balance = [
+      { c1: { x: c1x, y: c1y }, c2: { x: c2x, y: c2y } },
+      0n,
+      [],
+      await encryptPCT(eerc, KEY, amount),
+    ];
+  };
+  await setBalance(initialBalance);
+
+  const client = new EERCClient({
+    client: publicClient as unknown as PublicClient,
+    wallet: wallet as unknown as WalletClient,
+    contractAddress: CONTRACT,
+    circuitURLs,
+    decryptionKey: KEY,
+    options: { prover },
+  });
+
+  return { client, publicClient, prover, setBalance };
+};
+
+/**
+ * starts the client, fetches the balance at block 100 and transfers 30 with the receipt held back
+ */
+const transferPending = async () => {
+  const mocks = await setup(100n);
+  const { client, publicClient } = mocks;
+  await client.start();
+  client.subscribeBalance(TOKEN, () => {});
+  await client.refreshBalance(TOKEN);
+
+  let mine: (receipt: ReturnType<typeof createReceipt>) => void = () => {};
+  publicClient.waitForTransactionReceipt.mockReturnValue(
+    new Promise((resolve) => {
+      mine = resolve;
+    }),
+  );
+  await client.transfer(RECEIVER, 30n, TOKEN);
+
+  return {
+    ...mocks,
+    mine: (receipt: ReturnType<typeof createReceipt>) => mine(receipt),
+  };
+};
+
+describe("EERCClient with the sdk", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  test("transfers from the decrypted balance and spends it until the transfer is mined", async () => {
+    const { client, publicClient, prover, setBalance } = await setup(100n);
+    await client.start();
+    client.subscribeBalance(TOKEN, () => {});
+    await client.refreshBalance(TOKEN);
+
+    expect(client.getSnapshot()).toMatchObject({
+      isInitialized: true,
+      isRegistered: true,
+      isAuditorKeySet: true,
+      areYouAuditor: false,
+      keyStatus: "matches",
+    });
+    expect(client.getBalanceSnapshot(TOKEN)).toMatchObject({
+      decrypted: 100n,
+      parsed: "1",
+      pendingBalance: 100n,
+      isFetched: true,
+    });
+
+    let mine: (receipt: ReturnType<typeof createReceipt>) => void = () => {};
+    publicClient.waitForTransactionReceipt.mockReturnValue(
+      new Promise((resolve) => {
+        mine = resolve;
+      }),
+    );
+
+    const result = await client.transfer(RECEIVER, 30n, TOKEN);
+
+    expect(result.transactionHash).toBe(sentTransactionHash(1));
+    const [[{ input }]] = prover.prove.mock.calls;
+    expect(input.SenderBalance).toBe(100n);
+    expect(input.ValueToTransfer).toBe(30n);
+
+    // the contract subtracts the transfer from the balance once it is mined
+    const eerc = client.eerc as EERC;
+    const pending = client.getBalanceSnapshot(TOKEN);
+    expect(pending).toMatchObject({
+      decrypted: 100n,
+      pendingBalance: 70n,
+      pendingOperations: [
+        { operation: "transfer", transactionHash: sentTransactionHash(1) },
+      ],
+    });
+    expect(balancePoint(eerc, pending.pendingEncrypted)).toEqual(
+      eerc.curve.mulWithScalar(eerc.curve.Base8, 70n),
+    );
+    expect(() => client.transfer(RECEIVER, 71n, TOKEN)).toThrow(
+      expect.objectContaining({ code: "INSUFFICIENT_BALANCE" }),
+    );
+
+    await setBalance(70n);
+    mine(createReceipt({ transactionHash: sentTransactionHash(1) }));
+    await flush();
+
+    expect(client.getBalanceSnapshot(TOKEN)).toMatchObject({
+      decrypted: 70n,
+      pendingBalance: 70n,
+      pendingOperations: [],
+    });
+    client.stop();
+  });
+
+  test("does not subtract the transfer again when a block is polled before its receipt resolves", async () => {
+    const { client, publicClient, setBalance, mine } = await transferPending();
+
+    // the transfer is mined in block 101
+    const receipt = createReceipt({
+      transactionHash: sentTransactionHash(1),
+      blockNumber: 101n,
+    });
+    await setBalance(70n);
+    publicClient.getBlockNumber.mockResolvedValue(101n);
+    publicClient.getTransactionReceipt.mockResolvedValue(receipt);
+
+    const [[{ onBlockNumber }]] = publicClient.watchBlockNumber.mock.calls;
+    onBlockNumber();
+    await flush();
+
+    const eerc = client.eerc as EERC;
+    const balance = client.getBalanceSnapshot(TOKEN);
+    expect(balance).toMatchObject({
+      decrypted: 70n,
+      pendingBalance: 70n,
+      pendingOperations: [],
+    });
+    expect(balancePoint(eerc, balance.pendingEncrypted)).toEqual(
+      eerc.curve.mulWithScalar(eerc.curve.Base8, 70n),
+    );
+
+    mine(receipt);
+    await flush();
+
+    expect(client.getBalanceSnapshot(TOKEN)).toMatchObject({
+      decrypted: 70n,
+      pendingBalance: 70n,
+      pendingOperations: [],
+    });
+    client.stop();
+  });
+
+  test("discards a refetch that is overtaken by the refetch after the receipt", async () => {
+    const { client, publicClient, setBalance, mine } = await transferPending();
+
+    // the balance before the transfer is mined, returned late
+    const before = await publicClient.readContract({
+      address: CONTRACT,
+      functionName: "getBalanceFromTokenAddress",
+    });
+    let resolveStale: (balance: unknown) => void = () => {};
+    publicClient.readContract.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          resolveStale = resolve;
+        }),
+    );
+    const stale = client.refreshBalance(TOKEN);
+    await flush();
+
+    await setBalance(70n);
+    publicClient.getBlockNumber.mockResolvedValue(101n);
+    mine(
+      createReceipt({
+        transactionHash: sentTransactionHash(1),
+        blockNumber: 101n,
+      }),
+    );
+    await flush();
+
+    expect(client.getBalanceSnapshot(TOKEN)).toMatchObject({
+      decrypted: 70n,
+      pendingBalance: 70n,
+      pendingOperations: [],
+    });
+
+    resolveStale(before);
+    await stale;
+
+    expect(client.getBalanceSnapshot(TOKEN)).toMatchObject({
+      decrypted: 70n,
+      pendingBalance: 70n,
+      pendingOperations: [],
+    });
+    client.stop();
+  });
+});
@@ -0,0 +1,157 @@
+import { domainSeparator, maxUint256, zeroHash } from "viem";
+import {
+  ACCOUNT,
+  CHAIN_ID,
+  CONTRACT,
+  TOKEN,
+  createEERC,
+  sentTransactionHash,
+} from "./mocks";
+
+const signature = `0x${"11".repeat(32)}${"22".repeat(32)}1b` as const;
+
+const domain = {
+  name: "Token",
+  version: "1",
+  chainId: CHAIN_ID,
+  verifyingContract: TOKEN,
+} as const;
+
+/**
+ * token reads of an erc20 without permit, the allowance covers the deposit once approved
+ */
+const tokenCalls = () => ({
+  decimals: ({ address }: { address: `0x${string}` }) =>
+    address === CONTRACT ? 2 : 18,
+  allowance: jest.fn().mockReturnValueOnce(0n).mockReturnValue(maxUint256),
+  name: () => domain.name,
+});
+
+/**
+ * token reads of an erc20 with eip-2612 permit and eip-5267 domain
+ */
+const permitTokenCalls = () => ({
+  ...tokenCalls(),
+  nonces: () => 3n,
+  DOMAIN_SEPARATOR: () => domainSeparator({ domain }),
+  eip712Domain: () => [
+    "0x0f",
+    domain.name,
+    domain.version,
+    BigInt(CHAIN_ID),
+    TOKEN,
+    zeroHash,
+    [],
+  ],
+});
+
+const amount = 10n ** 18n;
+
+describe("approveAndDeposit", () => {
+  test("gives the allowance with a permit if the token supports it", async () => {
+    const { eerc, client, wallet } = createEERC({
+      contract: permitTokenCalls(),
+    });
+    wallet.signTypedData.mockResolvedValue(signature);
+
+    const result = await eerc.approveAndDeposit(amount, TOKEN, 2n, undefined, {
+      permit: true,
+    });
+
+    expect(wallet.signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        domain,
+        primaryType: "Permit",
+        message: expect.objectContaining({
+          owner: ACCOUNT,
+          spender: CONTRACT,
+          value: amount,
+          nonce: 3n,
+        }),
+      }),
+    );
+
+    const [[permit], [deposit]] = client.simulateContract.mock.calls as [
+      { address: string; functionName: string; args: unknown[] },
+    ][];
+    expect(permit).toMatchObject({
+      address: TOKEN,
+      functionName: "permit",
+      args: [
+        ACCOUNT,
+        CONTRACT,
+        amount,
+        expect.any(BigInt),
+        27,
+        `0x${"11".repeat(32)}`,
+        `0x${"22".repeat(32)}`,
+      ],
+    });
+    expect(deposit).toMatchObject({
+      address: CONTRACT,
+      functionName: "deposit",
+    });
+
+    // the deposit is only simulated after the permit is mined
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({ hash: sentTransactionHash(1) }),
+    );
+    expect(result.approvalTransactionHash).toBe(sentTransactionHash(1));
+    expect(result.transactionHash).toBe(sentTransactionHash(2));
+    expect(result.expectedAmount).toBe(100n);
+  });
+
+  test("approves the token if it does not support permit", async () => {
+    const { eerc, client, wallet } = createEERC({ contract: tokenCalls() });
+
+    const result = await eerc.approveAndDeposit(amount, TOKEN, 2n, undefined, {
+      permit: true,
+      approval: "unlimited",
+    });
+
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+    const [[approve], [deposit]] = client.simulateContract.mock.calls as [
+      { address: string; functionName: string; args: unknown[] },
+    ][];
+    expect(approve).toMatchObject({
+      address: TOKEN,
+      functionName: "approve",
+      args: [CONTRACT, maxUint256],
+    });
+    expect(deposit.functionName).toBe("deposit");
+    expect(result.approvalTransactionHash).toBe(sentTransactionHash(1));
+  });
+
+  test("approves the token if the permit domain does not match", async () => {
+    const { eerc, client, wallet } = createEERC({
+      contract: {
+        ...permitTokenCalls(),
+        DOMAIN_SEPARATOR: () => zeroHash,
+      },
+    });
+
+    await eerc.approveAndDeposit(amount, TOKEN, 2n, undefined, {
+      permit: true,
+    });
+
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+    expect(client.simulateContract.mock.calls[0][0]).toMatchObject({
+      functionName: "approve",
+      args: [CONTRACT, amount],
+    });
+  });
+
+  test("deposits without approving if the allowance covers the amount", async () => {
+    const { eerc, client, wallet } = createEERC({
+      contract: { ...tokenCalls(), allowance: () => amount },
+    });
+
+    const result = await eerc.approveAndDeposit(amount, TOKEN, 2n);
+
+    expect(result.approvalTransactionHash).toBeUndefined();
+    expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+    expect(client.simulateContract.mock.calls[0][0]).toMatchObject({
+      functionName: "deposit",
+    });
+  });
+});
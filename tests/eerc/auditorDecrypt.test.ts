@@ -0,0 +1,161 @@
+import { encodeFunctionData, zeroAddress } from "viem";
+import { ENCRYPTED_ERC_ABI } from "../../src/utils";
+import {
+  ACCOUNT,
+  CONTRACT,
+  KEY,
+  RECEIVER,
+  TOKEN,
+  createEERC,
+  encryptPCT,
+} from "./mocks";
+
+const transferHash = `0x${"01".repeat(32)}` as const;
+const depositHash = `0x${"02".repeat(32)}` as const;
+const withdrawHash = `0x${"03".repeat(32)}` as const;
+
+const proof = (signals: number) => ({
+  proofPoints: {
+    a: [0n, 0n],
+    b: [
+      [0n, 0n],
+      [0n, 0n],
+    ],
+    c: [0n, 0n],
+  },
+  publicSignals: Array(signals).fill(0n),
+});
+
+/**
+ * creates the auditor sdk with a transfer, a deposit and a withdrawal in the scanned range
+ */
+const setup = async (isConverter = true) => {
+  const mocks = createEERC({ isConverter });
+  const { eerc, client } = mocks;
+
+  const logs: Record<string, unknown[]> = {
+    AuditorChanged: [
+      {
+        eventName: "AuditorChanged",
+        args: { oldAuditor: zeroAddress, newAuditor: ACCOUNT },
+        blockNumber: 1n,
+      },
+    ],
+    PrivateTransfer: [
+      {
+        eventName: "PrivateTransfer",
+        args: {
+          from: ACCOUNT,
+          to: RECEIVER,
+          auditorPCT: await encryptPCT(eerc, KEY, 25n),
+          auditorAddress: ACCOUNT,
+        },
+        transactionHash: transferHash,
+        blockNumber: 20n,
+        logIndex: 0,
+      },
+    ],
+    Deposit: [
+      {
+        eventName: "Deposit",
+        args: {
+          user: RECEIVER,
+          amount: 1234567n,
+          dust: 4567n,
+          tokenId: 1n,
+        },
+        transactionHash: depositHash,
+        blockNumber: 10n,
+        logIndex: 0,
+      },
+    ],
+    Withdraw: [
+      {
+        eventName: "Withdraw",
+        args: {
+          user: RECEIVER,
+          amount: 40n,
+          tokenId: 1n,
+          auditorPCT: await encryptPCT(eerc, KEY, 40n),
+          auditorAddress: ACCOUNT,
+        },
+        transactionHash: withdrawHash,
+        blockNumber: 30n,
+        logIndex: 0,
+      },
+    ],
+  };
+  client.getLogs.mockImplementation(
+    async ({ event }) => logs[event.name as string] ?? [],
+  );
+
+  client.getTransaction.mockImplementation(async ({ hash }) => {
+    if (hash !== transferHash) throw new Error(`unexpected ${hash}`);
+    return {
+      hash,
+      from: ACCOUNT,
+      to: CONTRACT,
+      blockNumber: 20n,
+      input: encodeFunctionData({
+        abi: ENCRYPTED_ERC_ABI,
+        functionName: "transfer",
+        args: [RECEIVER, 1n, proof(32), Array(7).fill(0n)],
+      }),
+    };
+  });
+
+  return mocks;
+};
+
+describe("auditorDecrypt", () => {
+  test("decrypts the transfers, deposits and withdrawals of the auditor", async () => {
+    const { eerc } = await setup();
+
+    const transactions = await eerc.auditorDecrypt();
+
+    // latest first
+    expect(transactions).toEqual([
+      {
+        transactionHash: withdrawHash,
+        type: "Withdraw",
+        amount: "40",
+        sender: RECEIVER,
+        receiver: RECEIVER,
+        blockNumber: 30n,
+        tokenId: 1n,
+        tokenAddress: TOKEN,
+        dust: undefined,
+      },
+      {
+        transactionHash: transferHash,
+        type: "Transfer",
+        amount: "25",
+        sender: ACCOUNT,
+        receiver: RECEIVER,
+        blockNumber: 20n,
+      },
+      {
+        transactionHash: depositHash,
+        type: "Deposit",
+        amount: "1234567",
+        sender: RECEIVER,
+        receiver: RECEIVER,
+        blockNumber: 10n,
+        tokenId: 1n,
+        tokenAddress: TOKEN,
+        dust: "4567",
+      },
+    ]);
+  });
+
+  test("does not scan the converter events of a stand-alone contract", async () => {
+    const { eerc, client } = await setup(false);
+
+    const transactions = await eerc.auditorDecrypt();
+
+    expect(transactions.map(({ type }) => type)).toEqual(["Transfer"]);
+    const scanned = client.getLogs.mock.calls.map(([{ event }]) => event.name);
+    expect(scanned).not.toContain("Deposit");
+    expect(scanned).not.toContain("Withdraw");
+  });
+});
@@ -0,0 +1,155 @@
+import type { EERC } from "../../src/EERC";
+import { formatKeyForCurve } from "../../src/crypto/key";
+import type { Point } from "../../src/crypto/types";
+import type { BatchTransferRecipient } from "../../src/hooks/types";
+import {
+  KEY,
+  OTHER_RECEIVER,
+  OTHER_RECEIVER_KEY,
+  RECEIVER,
+  TOKEN,
+  createEERC,
+  encryptBalance,
+  publicKeyOf,
+} from "./mocks";
+
+/**
+ * decrypts the el gamal balance of the sender to its point, amounts are compared as Base8 multiples
+ */
+const balancePoint = (eerc: EERC, encrypted: (bigint | string)[]) => {
+  const [c1x, c1y, c2x, c2y] = encrypted.map(BigInt);
+  return eerc.curve.elGamalDecryption(formatKeyForCurve(KEY), {
+    c1: [c1x, c1y],
+    c2: [c2x, c2y],
+  });
+};
+
+const amountPoint = (eerc: EERC, amount: bigint): Point =>
+  eerc.curve.mulWithScalar(eerc.curve.Base8, amount);
+
+const setup = async (balance: bigint) => {
+  const mocks = createEERC();
+  const { eerc } = mocks;
+  return {
+    ...mocks,
+    encryptedBalance: await encryptBalance(eerc, KEY, balance),
+    auditorPublicKey: publicKeyOf(eerc, OTHER_RECEIVER_KEY),
+  };
+};
+
+describe("batchTransfer", () => {
+  test("proves every transfer from the balance after the previous one", async () => {
+    const { eerc, client, prover, encryptedBalance, auditorPublicKey } =
+      await setup(100n);
+
+    const result = await eerc.batchTransfer(
+      [
+        { to: RECEIVER, amount: 30n },
+        { to: OTHER_RECEIVER, amount: 20n },
+      ],
+      encryptedBalance,
+      100n,
+      auditorPublicKey,
+      TOKEN,
+    );
+
+    expect(result.results.map(({ status }) => status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(result.remaining).toEqual([]);
+
+    const [[first], [second]] = prover.prove.mock.calls;
+    expect(first.input.SenderBalance).toBe(100n);
+    expect(first.input.SenderBalanceC1).toEqual(encryptedBalance.slice(0, 2));
+
+    // the contract subtracts the sender vtt of the first transfer from the balance
+    expect(second.input.SenderBalance).toBe(70n);
+    expect(
+      balancePoint(eerc, [
+        ...second.input.SenderBalanceC1,
+        ...second.input.SenderBalanceC2,
+      ]),
+    ).toEqual(amountPoint(eerc, 70n));
+
+    expect(result.decryptedBalance).toBe(50n);
+    expect(balancePoint(eerc, result.encryptedBalance)).toEqual(
+      amountPoint(eerc, 50n),
+    );
+
+    // the second proof is only valid once the first transfer is mined
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledTimes(2);
+    expect(
+      client.waitForTransactionReceipt.mock.invocationCallOrder[0],
+    ).toBeLessThan(prover.prove.mock.invocationCallOrder[1]);
+  });
+
+  test("skips the recipients after a failed transfer and resumes with the returned balance", async () => {
+    const { eerc, client, prover, encryptedBalance, auditorPublicKey } =
+      await setup(100n);
+    client.simulateContract
+      .mockImplementationOnce(async (request: unknown) => ({ request }))
+      .mockRejectedValueOnce(new Error("execution reverted"));
+
+    const recipients: BatchTransferRecipient[] = [
+      { to: RECEIVER, amount: 30n },
+      { to: OTHER_RECEIVER, amount: 20n, message: "rent" },
+      { to: RECEIVER, amount: 10n },
+    ];
+    const result = await eerc.batchTransfer(
+      recipients,
+      encryptedBalance,
+      100n,
+      auditorPublicKey,
+      TOKEN,
+    );
+
+    expect(result.results.map(({ status }) => status)).toEqual([
+      "success",
+      "failed",
+      "skipped",
+    ]);
+    expect(result.results[1].error?.operation).toBe("transfer");
+    expect(result.remaining).toEqual(recipients.slice(1));
+    expect(result.decryptedBalance).toBe(70n);
+    expect(prover.prove).toHaveBeenCalledTimes(2);
+
+    prover.prove.mockClear();
+    const resumed = await eerc.batchTransfer(
+      result.remaining,
+      result.encryptedBalance,
+      result.decryptedBalance,
+      auditorPublicKey,
+      TOKEN,
+    );
+
+    expect(resumed.results.map(({ status }) => status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(prover.prove.mock.calls[0][0].input.SenderBalance).toBe(70n);
+    expect(resumed.decryptedBalance).toBe(40n);
+    expect(balancePoint(eerc, resumed.encryptedBalance)).toEqual(
+      amountPoint(eerc, 40n),
+    );
+  });
+
+  test("refuses the batch if the total is more than the balance", async () => {
+    const { eerc, prover, encryptedBalance, auditorPublicKey } =
+      await setup(40n);
+
+    await expect(
+      eerc.batchTransfer(
+        [
+          { to: RECEIVER, amount: 30n },
+          { to: OTHER_RECEIVER, amount: 20n },
+        ],
+        encryptedBalance,
+        40n,
+        auditorPublicKey,
+        TOKEN,
+      ),
+    ).rejects.toMatchObject({ code: "INSUFFICIENT_BALANCE" });
+    expect(prover.prove).not.toHaveBeenCalled();
+  });
+});
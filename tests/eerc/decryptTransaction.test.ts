@@ -0,0 +1,266 @@
+import { encodeFunctionData } from "viem";
+import {
+  DEPOSIT_EVENT,
+  ENCRYPTED_ERC_ABI,
+  WITHDRAW_EVENT,
+} from "../../src/utils";
+import {
+  ACCOUNT,
+  CONTRACT,
+  OTHER_RECEIVER_KEY,
+  RECEIVER,
+  TOKEN,
+  createEERC,
+  createLog,
+  createReceipt,
+  publicKeyOf,
+} from "./mocks";
+
+const transactionHash = `0x${"ab".repeat(32)}` as const;
+
+const pct = [1n, 2n, 3n, 4n, 5n, 6n, 7n];
+
+const depositInput = (amount: bigint) =>
+  encodeFunctionData({
+    abi: ENCRYPTED_ERC_ABI,
+    functionName: "deposit",
+    args: [amount, TOKEN, pct],
+  });
+
+const withdrawInput = encodeFunctionData({
+  abi: ENCRYPTED_ERC_ABI,
+  functionName: "withdraw",
+  args: [
+    1n,
+    {
+      proofPoints: {
+        a: [0n, 0n],
+        b: [
+          [0n, 0n],
+          [0n, 0n],
+        ],
+        c: [0n, 0n],
+      },
+      publicSignals: Array(16).fill(0n),
+    },
+    pct,
+  ],
+});
+
+/**
+ * creates the sdk with a transaction that emits the converter event
+ */
+const setup = (
+  input: `0x${string}`,
+  log: ReturnType<typeof createLog>,
+  tokenDecimals: number,
+  eERCDecimals: number,
+) => {
+  const mocks = createEERC({
+    contract: {
+      decimals: ({ address }) =>
+        address === CONTRACT ? eERCDecimals : tokenDecimals,
+    },
+  });
+  mocks.client.getTransaction.mockResolvedValue({
+    hash: transactionHash,
+    input,
+    from: ACCOUNT,
+    to: CONTRACT,
+    blockNumber: 10n,
+  });
+  mocks.client.getTransactionReceipt.mockResolvedValue(
+    createReceipt({ transactionHash, logs: [log] }),
+  );
+  return mocks;
+};
+
+describe("decryptTransaction", () => {
+  describe("token with more decimals than the eERC", () => {
+    test("decodes the deposit amount in both units and the dust", async () => {
+      // 1.234567 tokens with 18 decimals, 1.23 eERC is credited
+      const amount = 1234567000000000000n;
+      const { eerc } = setup(
+        depositInput(amount),
+        createLog(DEPOSIT_EVENT, {
+          user: ACCOUNT,
+          amount,
+          dust: 4567000000000000n,
+          tokenId: 1n,
+        }),
+        18,
+        2,
+      );
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "Deposit",
+        user: ACCOUNT,
+        amount: "123",
+        tokenAmount: "1230000000000000000",
+        dust: "4567000000000000",
+        tokenId: 1n,
+        tokenAddress: TOKEN,
+      });
+    });
+
+    test("decodes the withdraw amount in both units", async () => {
+      const { eerc } = setup(
+        withdrawInput,
+        createLog(WITHDRAW_EVENT, {
+          user: ACCOUNT,
+          amount: 123n,
+          tokenId: 1n,
+          auditorPCT: pct,
+          auditorAddress: ACCOUNT,
+        }),
+        18,
+        2,
+      );
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "Withdraw",
+        user: ACCOUNT,
+        amount: "123",
+        tokenAmount: "1230000000000000000",
+        tokenId: 1n,
+        tokenAddress: TOKEN,
+      });
+      expect(event.dust).toBeUndefined();
+    });
+  });
+
+  describe("token with less decimals than the eERC", () => {
+    test("decodes the deposit amount in both units without dust", async () => {
+      // 1.50 tokens with 2 decimals, 1.500000 eERC is credited
+      const { eerc } = setup(
+        depositInput(150n),
+        createLog(DEPOSIT_EVENT, {
+          user: ACCOUNT,
+          amount: 150n,
+          dust: 0n,
+          tokenId: 1n,
+        }),
+        2,
+        6,
+      );
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "Deposit",
+        amount: "1500000",
+        tokenAmount: "150",
+        dust: "0",
+      });
+    });
+
+    test("decodes the withdraw amount in both units", async () => {
+      const { eerc } = setup(
+        withdrawInput,
+        createLog(WITHDRAW_EVENT, {
+          user: ACCOUNT,
+          amount: 1500000n,
+          tokenId: 1n,
+          auditorPCT: pct,
+          auditorAddress: ACCOUNT,
+        }),
+        2,
+        6,
+      );
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "Withdraw",
+        amount: "1500000",
+        tokenAmount: "150",
+      });
+    });
+  });
+
+  test("reports a receipt without the event as a decrypt error", async () => {
+    // logs of other contracts are not read
+    const { eerc } = setup(
+      withdrawInput,
+      createLog(
+        WITHDRAW_EVENT,
+        {
+          user: ACCOUNT,
+          amount: 1n,
+          tokenId: 1n,
+          auditorPCT: pct,
+          auditorAddress: ACCOUNT,
+        },
+        { address: TOKEN },
+      ),
+      18,
+      2,
+    );
+
+    const [event] = await eerc.decryptTransaction(transactionHash);
+
+    expect(event.eventType).toBe("Withdraw");
+    expect(event.decryptError).toContain("No Withdraw event found");
+  });
+
+  describe("privateMint", () => {
+    /**
+     * mints with the sdk and returns the calldata of the sent transaction
+     */
+    const mintCalldata = async (recipient: `0x${string}`, amount: bigint) => {
+      const mocks = createEERC({ isConverter: false });
+      const { eerc, client, wallet } = mocks;
+
+      await eerc.privateMint(
+        recipient,
+        amount,
+        publicKeyOf(eerc, OTHER_RECEIVER_KEY),
+      );
+      const [[request]] = wallet.writeContract.mock.calls as unknown as [
+        Parameters<typeof encodeFunctionData>[0],
+      ][];
+
+      client.getTransaction.mockResolvedValue({
+        hash: transactionHash,
+        input: encodeFunctionData(request),
+        from: ACCOUNT,
+        to: CONTRACT,
+        blockNumber: 10n,
+      });
+      return mocks;
+    };
+
+    test("decrypts the amount minted to the user", async () => {
+      const { eerc } = await mintCalldata(ACCOUNT, 500n);
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "PrivateMint",
+        from: ACCOUNT,
+        to: ACCOUNT,
+        user: ACCOUNT,
+        decryptedAmount: "500",
+      });
+      expect(event.nullifierHash).toMatch(/^\d+$/);
+      expect(event.decryptError).toBeUndefined();
+    });
+
+    test("does not decrypt the amount minted to another user", async () => {
+      const { eerc } = await mintCalldata(RECEIVER, 500n);
+
+      const [event] = await eerc.decryptTransaction(transactionHash);
+
+      expect(event).toMatchObject({
+        eventType: "PrivateMint",
+        to: RECEIVER,
+        user: RECEIVER,
+      });
+      expect(event.decryptedAmount).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { encodeFunctionData } from "viem";
+import type { EERC } from "../../src/EERC";
+import {
+  ACCOUNT,
+  CONTRACT,
+  KEY,
+  OTHER_RECEIVER_KEY,
+  RECEIVER,
+  RECEIVER_KEY,
+  TOKEN,
+  createEERC,
+  encryptBalance,
+  publicKeyOf,
+} from "./mocks";
+
+type Mocks = ReturnType<typeof createEERC>;
+
+type HistoryLog = {
+  eventName: string;
+  args: Record<string, unknown>;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+  logIndex: number;
+};
+
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "a")}` as const;
+
+/**
+ * sends a transfer from the sender sdk and returns its calldata and encrypted message
+ */
+const transferInput = async (
+  sender: Mocks,
+  key: string,
+  to: `0x${string}`,
+  amount: bigint,
+  message?: string,
+) => {
+  await sender.eerc.transfer(
+    to,
+    amount,
+    await encryptBalance(sender.eerc, key, 100n),
+    100n,
+    publicKeyOf(sender.eerc, OTHER_RECEIVER_KEY),
+    TOKEN,
+    message,
+  );
+  const calls = sender.wallet.writeContract.mock.calls as unknown as [
+    Parameters<typeof encodeFunctionData>[0] & { args: unknown[] },
+  ][];
+  const [request] = calls[calls.length - 1];
+  return {
+    input: encodeFunctionData(request),
+    encryptedMessage: request.args[4] as `0x${string}` | undefined,
+  };
+};
+
+const transferLog = (
+  transactionHash: `0x${string}`,
+  blockNumber: bigint,
+  from: `0x${string}`,
+  to: `0x${string}`,
+): HistoryLog => ({
+  eventName: "PrivateTransfer",
+  args: { from, to },
+  transactionHash,
+  blockNumber,
+  logIndex: 0,
+});
+
+const messageLog = (
+  transactionHash: `0x${string}`,
+  blockNumber: bigint,
+  encryptedMsg: `0x${string}`,
+  logIndex = 0,
+): HistoryLog => ({
+  eventName: "PrivateMessage",
+  args: {
+    from: RECEIVER,
+    to: ACCOUNT,
+    metadata: {
+      messageFrom: RECEIVER,
+      messageTo: ACCOUNT,
+      messageType: "TRANSFER",
+      encryptedMsg,
+    },
+  },
+  transactionHash,
+  blockNumber,
+  logIndex,
+});
+
+/**
+ * creates the sdk of the user with a history in blocks 20 to 95, the latest block is 100,
+ * a scan window is chunkSize blocks
+ * - 95: transfer of 30 to the receiver
+ * - 90: transfer of 25 from the receiver with a message
+ * - 80: transfer of 5 to the user itself
+ * - 70: deposit of 1.23 tokens with 18 decimals
+ * - 60: withdrawal of 0.40 of another token
+ * - 20: message from the receiver
+ */
+const setup = async (
+  logScanner: { fromBlock?: bigint } = { fromBlock: 1n },
+) => {
+  const mocks = createEERC({
+    contract: {
+      decimals: ({ address }) => (address === CONTRACT ? 2 : 18),
+    },
+    options: {
+      logScanner: { ...logScanner, chunkSize: 100n, concurrency: 1 },
+      // the amounts are small, a small baby step table is enough
+      bsgs: { maxValue: 1000n },
+    },
+  });
+  const { eerc, client } = mocks;
+  const receiver = createEERC({
+    account: RECEIVER,
+    decryptionKey: RECEIVER_KEY,
+  });
+
+  const outgoing = await transferInput(mocks, KEY, RECEIVER, 30n);
+  const incoming = await transferInput(
+    receiver,
+    RECEIVER_KEY,
+    ACCOUNT,
+    25n,
+    "thanks",
+  );
+  const self = await transferInput(mocks, KEY, ACCOUNT, 5n);
+  const message = await transferInput(
+    receiver,
+    RECEIVER_KEY,
+    ACCOUNT,
+    1n,
+    "hi",
+  );
+
+  const transactions: Record<string, { from: string; input: `0x${string}` }> = {
+    [hash(1)]: { from: ACCOUNT, input: outgoing.input },
+    [hash(2)]: { from: RECEIVER, input: incoming.input },
+    [hash(3)]: { from: ACCOUNT, input: self.input },
+  };
+
+  const logs: HistoryLog[] = [
+    transferLog(hash(1), 95n, ACCOUNT, RECEIVER),
+    transferLog(hash(2), 90n, RECEIVER, ACCOUNT),
+    messageLog(hash(2), 90n, incoming.encryptedMessage as `0x${string}`, 1),
+    transferLog(hash(3), 80n, ACCOUNT, ACCOUNT),
+    {
+      eventName: "Deposit",
+      args: {
+        user: ACCOUNT,
+        amount: 1234567000000000000n,
+        dust: 4567000000000000n,
+        tokenId: 1n,
+      },
+      transactionHash: hash(4),
+      blockNumber: 70n,
+      logIndex: 0,
+    },
+    {
+      eventName: "Withdraw",
+      args: { user: ACCOUNT, amount: 40n, tokenId: 2n },
+      transactionHash: hash(5),
+      blockNumber: 60n,
+      logIndex: 0,
+    },
+    messageLog(hash(6), 20n, message.encryptedMessage as `0x${string}`),
+  ];
+
+  client.getLogs.mockImplementation(
+    async ({ event, args = {}, fromBlock, toBlock }) =>
+      logs.filter(
+        (log) =>
+          log.eventName === event.name &&
+          log.blockNumber >= fromBlock &&
+          log.blockNumber <= toBlock &&
+          Object.entries(args).every(
+            ([name, value]) => log.args[name] === value,
+          ),
+      ),
+  );
+  client.getTransaction.mockImplementation(async ({ hash }) => ({
+    hash,
+    to: CONTRACT,
+    ...transactions[hash],
+  }));
+  client.readContract.mockClear();
+
+  return { ...mocks, eerc: eerc as EERC };
+};
+
+describe("getHistory", () => {
+  test("decodes the operations and messages of the user, latest first", async () => {
+    const { eerc } = await setup();
+
+    const page = await eerc.getHistory();
+
+    expect(page).toMatchObject({
+      fromBlock: 1n,
+      toBlock: 100n,
+      nextToBlock: undefined,
+    });
+    expect(page.entries).toEqual([
+      // the sender vtt of an outgoing transfer is decrypted with the discrete log
+      expect.objectContaining({
+        transactionHash: hash(1),
+        eventType: "PrivateTransfer",
+        direction: "out",
+        from: ACCOUNT,
+        to: RECEIVER,
+        amount: 30n,
+        tokenId: 1n,
+      }),
+      // the receiver pct of an incoming transfer, with the message of the transaction
+      expect.objectContaining({
+        transactionHash: hash(2),
+        eventType: "PrivateTransfer",
+        direction: "in",
+        from: RECEIVER,
+        to: ACCOUNT,
+        amount: 25n,
+        message: expect.objectContaining({
+          decryptedMessage: "thanks",
+          messageFrom: RECEIVER,
+          messageTo: ACCOUNT,
+        }),
+      }),
+      // a self transfer matches both filters and is listed once
+      expect.objectContaining({
+        transactionHash: hash(3),
+        direction: "out",
+        from: ACCOUNT,
+        to: ACCOUNT,
+        amount: 5n,
+      }),
+      expect.objectContaining({
+        transactionHash: hash(4),
+        eventType: "Deposit",
+        direction: "in",
+        amount: 123n,
+        tokenAmount: 1230000000000000000n,
+        dust: 4567000000000000n,
+        tokenId: 1n,
+      }),
+      expect.objectContaining({
+        transactionHash: hash(5),
+        eventType: "Withdraw",
+        direction: "out",
+        amount: 40n,
+        tokenAmount: 400000000000000000n,
+        tokenId: 2n,
+      }),
+      expect.objectContaining({
+        transactionHash: hash(6),
+        eventType: "PrivateMessage",
+        direction: "in",
+        message: expect.objectContaining({ decryptedMessage: "hi" }),
+      }),
+    ]);
+    expect(page.entries.some(({ decryptError }) => decryptError)).toBe(false);
+  });
+
+  test("only lists the entries of the token", async () => {
+    const { eerc, client } = await setup();
+    client.readContract.mockImplementation(async ({ functionName, args }) => {
+      if (functionName === "tokenIds")
+        return (args?.[0] as string) === TOKEN ? 2n : 0n;
+      if (functionName === "tokenAddresses") return TOKEN;
+      return 2;
+    });
+
+    const { entries } = await eerc.getHistory({ tokenAddress: TOKEN });
+
+    // messages without an operation are not bound to a token
+    expect(entries.map(({ eventType }) => eventType)).toEqual([
+      "Withdraw",
+      "PrivateMessage",
+    ]);
+  });
+
+  test("continues the scan from nextToBlock", async () => {
+    const { eerc } = await setup();
+
+    const first = await eerc.getHistory({ chunkSize: 10n, limit: 1 });
+
+    expect(first.entries.map(({ transactionHash }) => transactionHash)).toEqual(
+      [hash(1)],
+    );
+    expect(first).toMatchObject({ fromBlock: 91n, nextToBlock: 90n });
+
+    const second = await eerc.getHistory({
+      chunkSize: 10n,
+      limit: 1,
+      toBlock: first.nextToBlock,
+    });
+
+    expect(
+      second.entries.map(({ transactionHash }) => transactionHash),
+    ).toEqual([hash(2)]);
+    expect(second).toMatchObject({ fromBlock: 81n, nextToBlock: 80n });
+  });
+
+  test("scans at most maxWindows windows per call", async () => {
+    const { eerc, client } = await setup();
+
+    const page = await eerc.getHistory({
+      chunkSize: 10n,
+      maxWindows: 2,
+      toBlock: 59n,
+    });
+
+    expect(page).toEqual({
+      entries: [],
+      fromBlock: 40n,
+      toBlock: 59n,
+      nextToBlock: 39n,
+    });
+    const scanned = client.getLogs.mock.calls.map(
+      ([{ fromBlock }]) => fromBlock,
+    );
+    expect(scanned.every((block) => block >= 40n)).toBe(true);
+  });
+
+  test("requires the start block", async () => {
+    const { eerc, client } = await setup({});
+
+    await expect(eerc.getHistory()).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      operation: "getHistory",
+    });
+    expect(client.getLogs).not.toHaveBeenCalled();
+
+    const { entries } = await eerc.getHistory({ fromBlock: 90n });
+    expect(entries.map(({ transactionHash }) => transactionHash)).toEqual([
+      hash(1),
+      hash(2),
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { EERC } from "../../src/EERC";
+import {
+  ACCOUNT,
+  CONTRACT,
+  type ContractCall,
+  KEY,
+  TOKEN,
+  createEERC,
+  encryptBalance,
+  encryptPCT,
+} from "./mocks";
+
+const OTHER_TOKEN = "0x8888888888888888888888888888888888888888";
+
+const revert = () => {
+  throw new Error("execution reverted");
+};
+
+/**
+ * encrypted balance as the contract returns it, with its balance pct
+ */
+const contractBalance = async (eerc: EERC, amount: bigint) => {
+  const [c1x, c1y, c2x, c2y] = await encryptBalance(eerc, KEY, amount);
+  return [
+    { c1: { x: c1x, y: c1y }, c2: { x: c2x, y: c2y } },
+    0n,
+    [],
+    await encryptPCT(eerc, KEY, amount),
+  ];
+};
+
+/**
+ * creates the sdk with two tokens, 1.50 eERC of USDC with 6 decimals and 0.05 eERC of WETH
+ * with 18 decimals, the eERC has 2 decimals
+ */
+const setup = async (
+  contract: Record<string, (call: ContractCall) => unknown> = {},
+) => {
+  const balances: Record<string, unknown[]> = {};
+  const tokens: Record<
+    string,
+    { id: bigint; symbol: string; decimals: number }
+  > = {
+    [TOKEN]: { id: 1n, symbol: "USDC", decimals: 6 },
+    [OTHER_TOKEN]: { id: 2n, symbol: "WETH", decimals: 18 },
+  };
+
+  const mocks = createEERC({
+    contract: {
+      getTokens: () => [TOKEN, OTHER_TOKEN],
+      tokenIds: ({ args = [] }) => tokens[args[0] as string].id,
+      getBalanceFromTokenAddress: ({ args = [] }) =>
+        balances[args[1] as string],
+      symbol: ({ address }) => tokens[address].symbol,
+      decimals: ({ address }) =>
+        address === CONTRACT ? 2 : tokens[address].decimals,
+      ...contract,
+    },
+  });
+  balances[TOKEN] = await contractBalance(mocks.eerc, 150n);
+  balances[OTHER_TOKEN] = await contractBalance(mocks.eerc, 5n);
+
+  return { ...mocks, balances };
+};
+
+describe("getPortfolio", () => {
+  test("decrypts the balance of every token from one multicall", async () => {
+    const { eerc, client, balances } = await setup();
+
+    const portfolio = await eerc.getPortfolio();
+
+    expect(client.multicall).toHaveBeenCalledTimes(1);
+    const [[{ contracts }]] = client.multicall.mock.calls;
+    expect(contracts).toHaveLength(8);
+    expect(contracts[5]).toMatchObject({
+      functionName: "getBalanceFromTokenAddress",
+      args: [ACCOUNT, OTHER_TOKEN],
+    });
+
+    const [{ c1, c2 }] = balances[OTHER_TOKEN] as [
+      { c1: { x: bigint; y: bigint }; c2: { x: bigint; y: bigint } },
+    ];
+    expect(portfolio).toEqual([
+      expect.objectContaining({
+        tokenAddress: TOKEN,
+        tokenId: 1n,
+        symbol: "USDC",
+        decimals: 6,
+        balance: 150n,
+        underlyingBalance: 1500000n,
+      }),
+      {
+        tokenAddress: OTHER_TOKEN,
+        tokenId: 2n,
+        symbol: "WETH",
+        decimals: 18,
+        balance: 5n,
+        underlyingBalance: 50000000000000000n,
+        encryptedBalance: [c1.x, c1.y, c2.x, c2.y],
+      },
+    ]);
+  });
+
+  test("keeps a token that does not implement symbol and decimals", async () => {
+    const { eerc } = await setup({
+      symbol: ({ address }) => (address === OTHER_TOKEN ? revert() : "USDC"),
+      decimals: ({ address }) =>
+        address === OTHER_TOKEN ? revert() : address === CONTRACT ? 2 : 6,
+    });
+
+    const [usdc, other] = await eerc.getPortfolio();
+
+    expect(usdc).toMatchObject({ symbol: "USDC", underlyingBalance: 1500000n });
+    expect(other).toMatchObject({
+      tokenAddress: OTHER_TOKEN,
+      symbol: "",
+      decimals: undefined,
+      balance: 5n,
+      underlyingBalance: undefined,
+    });
+  });
+
+  test.each(["tokenIds", "getBalanceFromTokenAddress"])(
+    "fails if %s of a token fails",
+    async (functionName) => {
+      const { eerc } = await setup({ [functionName]: revert });
+
+      await expect(eerc.getPortfolio()).rejects.toMatchObject({
+        code: "NOT_FOUND",
+        operation: "getPortfolio",
+      });
+    },
+  );
+
+  test("returns no tokens if the contract has none", async () => {
+    const { eerc, client } = await setup({ getTokens: () => [] });
+
+    await expect(eerc.getPortfolio()).resolves.toEqual([]);
+    expect(client.multicall).not.toHaveBeenCalled();
+  });
+
+  test("is not allowed for the stand-alone version", async () => {
+    const { eerc } = createEERC({ isConverter: false });
+
+    await expect(eerc.getPortfolio()).rejects.toMatchObject({
+      code: "NOT_ALLOWED",
+    });
+  });
+});
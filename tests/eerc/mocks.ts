@@ -0,0 +1,269 @@
+import {
+  type AbiEvent,
+  type PublicClient,
+  type WalletClient,
+  encodeAbiParameters,
+  encodeEventTopics,
+} from "viem";
+import { EERC } from "../../src/EERC";
+import { formatKeyForCurve } from "../../src/crypto/key";
+import type { CircuitURLs, EERCOptions } from "../../src/hooks/types";
+import type { ProveRequest } from "../../src/prover";
+import { CIRCUIT_PUBLIC_INPUTS } from "../../src/utils/constants";
+
+export const ACCOUNT = "0x2222222222222222222222222222222222222222";
+export const RECEIVER = "0x6666666666666666666666666666666666666666";
+export const OTHER_RECEIVER = "0x7777777777777777777777777777777777777777";
+export const REGISTRAR = "0x3333333333333333333333333333333333333333";
+export const CONTRACT = "0x4444444444444444444444444444444444444444";
+export const TOKEN = "0x5555555555555555555555555555555555555555";
+
+export const KEY =
+  "0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f9";
+export const RECEIVER_KEY =
+  "1f2e3d4c5b6a79881f2e3d4c5b6a79881f2e3d4c5b6a79881f2e3d4c5b6a7988";
+export const OTHER_RECEIVER_KEY =
+  "2a3b4c5d6e7f80912a3b4c5d6e7f80912a3b4c5d6e7f80912a3b4c5d6e7f8091";
+
+export const CHAIN_ID = 43114;
+
+const circuit = (name: string) => ({
+  wasm: `https://circuits.test/${name}.wasm`,
+  zkey: `https://circuits.test/${name}.zkey`,
+});
+
+export const circuitURLs: CircuitURLs = {
+  register: circuit("register"),
+  transfer: circuit("transfer"),
+  mint: circuit("mint"),
+  withdraw: circuit("withdraw"),
+  burn: circuit("burn"),
+};
+
+/**
+ * hash of the nth transaction sent by the mocked wallet
+ */
+export const sentTransactionHash = (index: number) =>
+  `0x${index.toString(16).padStart(64, "0")}` as const;
+
+const flatten = (value: unknown): bigint[] =>
+  Array.isArray(value) ? value.flatMap(flatten) : [BigInt(value as bigint)];
+
+/**
+ * remote prover that returns the circuit inputs as the public signals, so the proofs
+ * carry the same values a real prover would put in the calldata
+ */
+export const createProver = () => ({
+  remote: true,
+  prove: jest.fn(async ({ operation, input }: ProveRequest) => ({
+    proof: {
+      pi_a: ["1", "2", "1"],
+      pi_b: [
+        ["3", "4"],
+        ["5", "6"],
+        ["1", "0"],
+      ],
+      pi_c: ["7", "8", "1"],
+      protocol: "groth16",
+      curve: "bn128",
+    },
+    publicSignals: CIRCUIT_PUBLIC_INPUTS[operation].flatMap(([signal]) =>
+      flatten(input[signal]).map(String),
+    ),
+  })),
+});
+
+export type ContractCall = {
+  address: `0x${string}`;
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+type CreateEERCOptions = {
+  // address of the wallet
+  account?: `0x${string}`;
+  decryptionKey?: string;
+  isConverter?: boolean;
+  // registered decryption keys by address, the sender is registered with KEY
+  registered?: Record<string, string>;
+  // return values of the contract reads by function name
+  contract?: Record<string, (call: ContractCall) => unknown>;
+  options?: EERCOptions;
+};
+
+/**
+ * creates the sdk with mocked viem clients and prover
+ */
+export const createEERC = ({
+  account = ACCOUNT,
+  decryptionKey = KEY,
+  isConverter = true,
+  registered = {
+    [ACCOUNT]: KEY,
+    [RECEIVER]: RECEIVER_KEY,
+    [OTHER_RECEIVER]: OTHER_RECEIVER_KEY,
+  },
+  contract = {},
+  options = {},
+}: CreateEERCOptions = {}) => {
+  let transactions = 0;
+
+  const calls: Record<string, (call: ContractCall) => unknown> = {
+    getUserPublicKey: ({ args = [] }) => {
+      const key = Object.entries(registered).find(
+        ([address]) =>
+          address.toLowerCase() === (args[0] as string).toLowerCase(),
+      )?.[1];
+      return key ? publicKeyOf(eerc, key) : [0n, 0n];
+    },
+    tokenIds: () => 1n,
+    tokenAddresses: () => TOKEN,
+    ...contract,
+  };
+
+  const read = async (call: ContractCall) => {
+    const handler = calls[call.functionName];
+    if (!handler) throw new Error(`unexpected call ${call.functionName}`);
+    return handler(call);
+  };
+
+  const client = {
+    readContract: jest.fn(read),
+    // reads every call, failed calls are reported as with allowFailure
+    multicall: jest.fn(async ({ contracts }: { contracts: ContractCall[] }) =>
+      Promise.all(
+        contracts.map(async (call) => {
+          try {
+            return { status: "success", result: await read(call) };
+          } catch (error) {
+            return { status: "failure", error };
+          }
+        }),
+      ),
+    ),
+    getChainId: jest.fn(async () => CHAIN_ID),
+    simulateContract: jest.fn(async (request: unknown) => ({ request })),
+    getTransaction: jest.fn<Promise<unknown>, [{ hash: `0x${string}` }]>(),
+    getTransactionReceipt: jest.fn(),
+    waitForTransactionReceipt: jest.fn(async ({ hash }) =>
+      createReceipt({ transactionHash: hash }),
+    ),
+    getLogs: jest.fn(
+      async (_filter: {
+        event: AbiEvent;
+        args?: Record<string, unknown>;
+        fromBlock: bigint;
+        toBlock: bigint;
+      }): Promise<unknown[]> => [],
+    ),
+    getBlockNumber: jest.fn(async () => 100n),
+    watchBlockNumber: jest.fn(
+      (_params: { onBlockNumber: () => void }) => () => {},
+    ),
+  };
+
+  const wallet = {
+    account: { address: account, type: "json-rpc" },
+    writeContract: jest.fn(async () => sentTransactionHash(++transactions)),
+    signMessage: jest.fn(),
+    signTypedData: jest.fn(),
+  };
+
+  const prover = createProver();
+
+  const eerc = new EERC(
+    client as unknown as PublicClient,
+    wallet as unknown as WalletClient,
+    CONTRACT,
+    REGISTRAR,
+    isConverter,
+    circuitURLs,
+    decryptionKey,
+    { prover, ...options },
+  );
+
+  return { eerc, client, wallet, prover };
+};
+
+/**
+ * derives the public key of the decryption key
+ */
+export const publicKeyOf = (eerc: EERC, key: string) =>
+  eerc.curve.generatePublicKey(formatKeyForCurve(key));
+
+/**
+ * encrypts the balance with the el gamal key of the decryption key, as stored by the contract
+ */
+export const encryptBalance = async (
+  eerc: EERC,
+  key: string,
+  balance: bigint,
+) => {
+  const { cipher } = await eerc.curve.encryptMessage(
+    publicKeyOf(eerc, key),
+    balance,
+  );
+  return [...cipher.c1, ...cipher.c2];
+};
+
+/**
+ * creates the poseidon ciphertext of the amount for the decryption key, as emitted by the contract
+ */
+export const encryptPCT = async (eerc: EERC, key: string, amount: bigint) => {
+  const { cipher, authKey, nonce } =
+    await eerc.poseidon.processPoseidonEncryption({
+      inputs: [amount],
+      publicKey: publicKeyOf(eerc, key),
+    });
+  return [...cipher, ...authKey, nonce];
+};
+
+/**
+ * encodes the event as an rpc log of the contract
+ */
+export const createLog = (
+  event: object,
+  args: Record<string, unknown>,
+  { address = CONTRACT, logIndex = 0 } = {},
+) => {
+  const abiEvent = { ...event, type: "event" } as AbiEvent;
+  const inputs = abiEvent.inputs.filter(({ indexed }) => !indexed);
+
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: [abiEvent],
+      eventName: abiEvent.name,
+      args,
+    } as Parameters<typeof encodeEventTopics>[0]),
+    data: encodeAbiParameters(
+      inputs,
+      inputs.map(({ name }) => args[name as string]),
+    ),
+    logIndex,
+    blockNumber: 10n,
+    transactionHash: `0x${"ab".repeat(32)}`,
+  };
+};
+
+/**
+ * creates a mined transaction receipt
+ */
+export const createReceipt = ({
+  transactionHash,
+  status = "success",
+  logs = [],
+  blockNumber = 10n,
+}: {
+  transactionHash: `0x${string}`;
+  status?: "success" | "reverted";
+  logs?: ReturnType<typeof createLog>[];
+  blockNumber?: bigint;
+}) => ({
+  transactionHash,
+  status,
+  logs,
+  blockNumber,
+  gasUsed: 21000n,
+  effectiveGasPrice: 1n,
+});
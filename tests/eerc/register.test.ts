@@ -0,0 +1,85 @@
+import {
+  ACCOUNT,
+  CHAIN_ID,
+  KEY,
+  RECEIVER_KEY,
+  REGISTRAR,
+  createEERC,
+  publicKeyOf,
+} from "./mocks";
+
+describe("register", () => {
+  test("registers the imported key", async () => {
+    const { eerc, client, wallet, prover } = createEERC({
+      decryptionKey: "",
+      registered: {},
+    });
+
+    const result = await eerc.register({ privateKey: `0x${KEY}` });
+
+    expect(result).toEqual({ key: KEY, transactionHash: expect.any(String) });
+    expect(result.transactionHash).not.toBe("");
+    expect(eerc.publicKey).toEqual(publicKeyOf(eerc, KEY));
+    // the key is not derived from a signature
+    expect(wallet.signMessage).not.toHaveBeenCalled();
+
+    const [[{ operation, input }]] = prover.prove.mock.calls;
+    expect(operation).toBe("REGISTER");
+    expect(input).toMatchObject({
+      SenderPublicKey: publicKeyOf(eerc, KEY),
+      SenderAddress: BigInt(ACCOUNT),
+      ChainID: CHAIN_ID,
+    });
+    expect(client.simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: REGISTRAR,
+        functionName: "register",
+      }),
+    );
+  });
+
+  test("returns the imported key if it is already registered", async () => {
+    const { eerc, prover, wallet } = createEERC({ decryptionKey: "" });
+
+    const result = await eerc.register({ privateKey: KEY });
+
+    expect(result).toEqual({ key: KEY, transactionHash: "" });
+    expect(eerc.isDecryptionKeySet).toBe(true);
+    expect(prover.prove).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuses the imported key if the address is registered with a different key", async () => {
+    const { eerc, prover, wallet } = createEERC({ decryptionKey: "" });
+
+    await expect(
+      eerc.register({ privateKey: RECEIVER_KEY }),
+    ).rejects.toMatchObject({
+      code: "KEY_MISMATCH",
+      operation: "register",
+      message: "User is already registered with a different key!",
+    });
+    expect(eerc.isDecryptionKeySet).toBe(false);
+    expect(prover.prove).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuses a public key that does not belong to the imported key", async () => {
+    const { eerc } = createEERC({ decryptionKey: "", registered: {} });
+
+    await expect(
+      eerc.register({
+        privateKey: KEY,
+        publicKey: publicKeyOf(eerc, RECEIVER_KEY),
+      }),
+    ).rejects.toMatchObject({ code: "KEY_MISMATCH" });
+  });
+
+  test("refuses a key that is not hex", async () => {
+    const { eerc } = createEERC({ decryptionKey: "", registered: {} });
+
+    await expect(
+      eerc.register({ privateKey: "not a key" }),
+    ).rejects.toMatchObject({ code: "INVALID_KEY" });
+  });
+});
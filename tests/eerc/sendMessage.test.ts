@@ -0,0 +1,75 @@
+import { decodeFunctionData, encodeFunctionData } from "viem";
+import { formatKeyForCurve } from "../../src/crypto/key";
+import { decryptMetadata } from "../../src/helpers/metadata";
+import { ENCRYPTED_ERC_ABI } from "../../src/utils";
+import {
+  CONTRACT,
+  RECEIVER,
+  RECEIVER_KEY,
+  createEERC,
+  publicKeyOf,
+  sentTransactionHash,
+} from "./mocks";
+
+describe("sendMessage", () => {
+  test("sends the message encrypted for the receiver", async () => {
+    const { eerc, wallet } = createEERC();
+
+    const result = await eerc.sendMessage(RECEIVER, "invoice #42");
+
+    expect(result.transactionHash).toBe(sentTransactionHash(1));
+    const [[request]] = wallet.writeContract.mock.calls as unknown as [
+      Parameters<typeof encodeFunctionData>[0] & { address: string },
+    ][];
+    expect(request.address).toBe(CONTRACT);
+
+    // the calldata is decoded with the eERC abi
+    const { functionName, args } = decodeFunctionData({
+      abi: ENCRYPTED_ERC_ABI,
+      data: encodeFunctionData(request),
+    });
+    expect(functionName).toBe("sendEncryptedMetadata");
+    const [to, encryptedMessage] = args as [string, `0x${string}`];
+    expect(to).toBe(RECEIVER);
+    expect(encryptedMessage).toMatch(/^0x[0-9a-f]+$/);
+
+    await expect(
+      decryptMetadata(
+        eerc.poseidon,
+        formatKeyForCurve(RECEIVER_KEY),
+        encryptedMessage,
+      ),
+    ).resolves.toBe("invoice #42");
+  });
+
+  test("uses the given receiver public key", async () => {
+    const { eerc, client } = createEERC({ registered: {} });
+
+    await eerc.sendMessage(RECEIVER, "hi", {
+      receiverPublicKey: publicKeyOf(eerc, RECEIVER_KEY),
+    });
+
+    expect(client.readContract).not.toHaveBeenCalled();
+    expect(client.simulateContract).toHaveBeenCalledTimes(1);
+  });
+
+  test("refuses an empty message", async () => {
+    const { eerc, client, wallet } = createEERC();
+
+    await expect(eerc.sendMessage(RECEIVER, "")).rejects.toMatchObject({
+      code: "INVALID_MESSAGE",
+      operation: "sendMessage",
+    });
+    expect(client.simulateContract).not.toHaveBeenCalled();
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuses an unregistered receiver", async () => {
+    const { eerc, wallet } = createEERC({ registered: {} });
+
+    await expect(eerc.sendMessage(RECEIVER, "hi")).rejects.toMatchObject({
+      code: "RECEIVER_NOT_REGISTERED",
+    });
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  ACCOUNT,
+  OTHER_RECEIVER_KEY,
+  RECEIVER,
+  RECEIVER_KEY,
+  TOKEN,
+  createEERC,
+  publicKeyOf,
+} from "./mocks";
+
+describe("verifyKey", () => {
+  test("matches the key registered for the wallet", async () => {
+    const { eerc } = createEERC();
+
+    await expect(eerc.verifyKey()).resolves.toBe("matches");
+    expect(eerc.keyStatus).toBe("matches");
+  });
+
+  test("detects a key that does not belong to the wallet", async () => {
+    const { eerc } = createEERC({ registered: { [ACCOUNT]: RECEIVER_KEY } });
+
+    await expect(eerc.verifyKey()).resolves.toBe("mismatch");
+    expect(eerc.keyStatus).toBe("mismatch");
+  });
+
+  test("reports an unregistered wallet", async () => {
+    const { eerc } = createEERC({ registered: {} });
+
+    await expect(eerc.verifyKey()).resolves.toBe("unregistered");
+  });
+
+  test("reports a missing key without reading the registrar", async () => {
+    const { eerc, client } = createEERC({ decryptionKey: "" });
+
+    await expect(eerc.verifyKey()).resolves.toBe("missing");
+    expect(client.readContract).not.toHaveBeenCalled();
+  });
+
+  describe("with a mismatching key", () => {
+    const setup = () => {
+      const mocks = createEERC({
+        registered: { [ACCOUNT]: RECEIVER_KEY, [RECEIVER]: RECEIVER_KEY },
+        contract: {
+          decimals: () => 18,
+          allowance: () => 0n,
+        },
+      });
+      return {
+        ...mocks,
+        auditorPublicKey: publicKeyOf(mocks.eerc, OTHER_RECEIVER_KEY),
+      };
+    };
+
+    test("blocks transfers", async () => {
+      const { eerc, prover, wallet, auditorPublicKey } = setup();
+
+      await expect(
+        eerc.transfer(
+          RECEIVER,
+          10n,
+          [1n, 2n, 3n, 4n],
+          100n,
+          auditorPublicKey,
+          TOKEN,
+        ),
+      ).rejects.toMatchObject({ code: "KEY_MISMATCH", operation: "transfer" });
+      expect(prover.prove).not.toHaveBeenCalled();
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    test("blocks withdrawals", async () => {
+      const { eerc, prover, wallet, auditorPublicKey } = setup();
+
+      await expect(
+        eerc.withdraw(10n, [1n, 2n, 3n, 4n], 100n, auditorPublicKey, TOKEN),
+      ).rejects.toMatchObject({ code: "KEY_MISMATCH", operation: "withdraw" });
+      expect(prover.prove).not.toHaveBeenCalled();
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    test("blocks deposits before approving the token", async () => {
+      const { eerc, wallet } = setup();
+
+      await expect(eerc.deposit(10n, TOKEN, 2n)).rejects.toMatchObject({
+        code: "KEY_MISMATCH",
+        operation: "deposit",
+      });
+      await expect(
+        eerc.approveAndDeposit(10n, TOKEN, 2n),
+      ).rejects.toMatchObject({ code: "KEY_MISMATCH", operation: "approve" });
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    test("verifies again once the registered key is imported", async () => {
+      const { eerc } = setup();
+      await expect(eerc.verifyKey()).resolves.toBe("mismatch");
+
+      await eerc.register({ privateKey: RECEIVER_KEY });
+
+      expect(eerc.keyStatus).toBeUndefined();
+      await expect(eerc.verifyKey()).resolves.toBe("matches");
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { DEPOSIT_EVENT, PRIVATE_TRANSFER_EVENT } from "../../src/utils";
+import {
+  ACCOUNT,
+  KEY,
+  RECEIVER,
+  TOKEN,
+  createEERC,
+  createLog,
+  createReceipt,
+  encryptPCT,
+} from "./mocks";
+
+const transactionHash = `0x${"ab".repeat(32)}` as const;
+const replacementHash = `0x${"cd".repeat(32)}` as const;
+
+describe("waitForOperation", () => {
+  test("decodes the eERC events of the receipt", async () => {
+    const { eerc, client } = createEERC();
+    const logs = [
+      createLog(
+        PRIVATE_TRANSFER_EVENT,
+        {
+          from: ACCOUNT,
+          to: RECEIVER,
+          auditorPCT: await encryptPCT(eerc, KEY, 25n),
+          auditorAddress: ACCOUNT,
+        },
+        { logIndex: 0 },
+      ),
+      createLog(
+        DEPOSIT_EVENT,
+        { user: ACCOUNT, amount: 300n, dust: 0n, tokenId: 1n },
+        { logIndex: 1 },
+      ),
+      // logs of the token are not eERC events
+      createLog(
+        DEPOSIT_EVENT,
+        { user: ACCOUNT, amount: 1n, dust: 0n, tokenId: 1n },
+        { address: TOKEN, logIndex: 2 },
+      ),
+    ];
+    client.waitForTransactionReceipt.mockResolvedValue(
+      createReceipt({ transactionHash, logs }),
+    );
+
+    const receipt = await eerc.waitForOperation(transactionHash, {
+      confirmations: 3,
+      timeout: 1000,
+    });
+
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        hash: transactionHash,
+        confirmations: 3,
+        timeout: 1000,
+      }),
+    );
+    expect(receipt).toMatchObject({
+      transactionHash,
+      replacedTransactionHash: undefined,
+      blockNumber: 10n,
+      gasUsed: 21000n,
+      effectiveGasPrice: 1n,
+    });
+    expect(receipt.events).toEqual([
+      expect.objectContaining({
+        eventName: "PrivateTransfer",
+        logIndex: 0,
+        decryptedAmount: 25n,
+      }),
+      expect.objectContaining({
+        eventName: "Deposit",
+        logIndex: 1,
+        decryptedAmount: 300n,
+      }),
+    ]);
+  });
+
+  test("does not decrypt the events audited by another account", async () => {
+    const { eerc, client } = createEERC();
+    client.waitForTransactionReceipt.mockResolvedValue(
+      createReceipt({
+        transactionHash,
+        logs: [
+          createLog(PRIVATE_TRANSFER_EVENT, {
+            from: ACCOUNT,
+            to: RECEIVER,
+            auditorPCT: await encryptPCT(eerc, KEY, 25n),
+            auditorAddress: RECEIVER,
+          }),
+        ],
+      }),
+    );
+
+    const { events } = await eerc.waitForOperation(transactionHash);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].decryptedAmount).toBeUndefined();
+  });
+
+  test("throws if the transaction reverted", async () => {
+    const { eerc, client } = createEERC();
+    client.waitForTransactionReceipt.mockResolvedValue(
+      createReceipt({ transactionHash, status: "reverted" }),
+    );
+
+    await expect(eerc.waitForOperation(transactionHash)).rejects.toMatchObject({
+      code: "TRANSACTION_REVERTED",
+      operation: "waitForOperation",
+    });
+  });
+
+  test("throws if the transaction is replaced by another call", async () => {
+    const { eerc, client } = createEERC();
+    client.waitForTransactionReceipt.mockImplementation(
+      async ({ onReplaced }) => {
+        onReplaced({
+          reason: "replaced",
+          transaction: { hash: replacementHash },
+        });
+        return createReceipt({ transactionHash: replacementHash });
+      },
+    );
+
+    await expect(eerc.waitForOperation(transactionHash)).rejects.toMatchObject({
+      code: "TRANSACTION_REPLACED",
+    });
+  });
+
+  test("returns the receipt of the repriced transaction", async () => {
+    const { eerc, client } = createEERC();
+    client.waitForTransactionReceipt.mockImplementation(
+      async ({ onReplaced }) => {
+        onReplaced({
+          reason: "repriced",
+          transaction: { hash: replacementHash },
+        });
+        return createReceipt({ transactionHash: replacementHash });
+      },
+    );
+
+    const receipt = await eerc.waitForOperation(transactionHash);
+
+    expect(receipt.transactionHash).toBe(replacementHash);
+    expect(receipt.replacedTransactionHash).toBe(transactionHash);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  type Abi,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+} from "viem";
+import {
+  EERCContractError,
+  EERCError,
+  EERCTransactionError,
+  EERCValidationError,
+  decodeContractError,
+  toEERCError,
+} from "../../src/helpers/errors";
+import {
+  ENCRYPTED_ERC_ABI as EERC_ABI,
+  REGISTRAR_ABI as REGISTRAR,
+} from "../../src/utils";
+
+const ENCRYPTED_ERC_ABI = EERC_ABI as Abi;
+const REGISTRAR_ABI = REGISTRAR as Abi;
+
+const revert = (abi: Abi, errorName: string, args?: unknown[]) => {
+  const data = encodeErrorResult({ abi, errorName, args });
+  return new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({
+      abi,
+      data,
+      functionName: "transfer",
+    }),
+    { abi, functionName: "transfer", args: [] },
+  );
+};
+
+describe("Errors", () => {
+  test("should decode EncryptedERC custom errors", () => {
+    const token = "0x0000000000000000000000000000000000000001";
+    const decoded = decodeContractError(
+      revert(ENCRYPTED_ERC_ABI, "TokenBlacklisted", [token]),
+    );
+
+    expect(decoded?.name).toEqual("TokenBlacklisted");
+    expect(decoded?.args).toEqual([token]);
+  });
+
+  test("should decode Registrar errors that are not in the called abi", () => {
+    const data = encodeErrorResult({
+      abi: REGISTRAR_ABI,
+      errorName: "UserAlreadyRegistered",
+    });
+    const error = new ContractFunctionRevertedError({
+      abi: ENCRYPTED_ERC_ABI,
+      data,
+      functionName: "register",
+    });
+
+    expect(decodeContractError(error)?.name).toEqual("UserAlreadyRegistered");
+  });
+
+  test("should map contract errors to stable codes", () => {
+    const error = toEERCError(
+      revert(ENCRYPTED_ERC_ABI, "InvalidProof"),
+      "transfer",
+    );
+
+    expect(error).toBeInstanceOf(EERCContractError);
+    expect(error.code).toEqual("INVALID_PROOF");
+    expect(error.operation).toEqual("transfer");
+    expect(error.contractError?.name).toEqual("InvalidProof");
+    expect(error.cause).toBeInstanceOf(ContractFunctionExecutionError);
+  });
+
+  test("should detect user rejection", () => {
+    const error = toEERCError(
+      new UserRejectedRequestError(new Error("rejected")),
+      "register",
+    );
+
+    expect(error).toBeInstanceOf(EERCTransactionError);
+    expect(error.code).toEqual("USER_REJECTED");
+  });
+
+  test("should keep EERCError instances and set the operation", () => {
+    const original = new EERCValidationError("INVALID_AMOUNT", "Invalid");
+    const error = toEERCError(original, "withdraw");
+
+    expect(error).toBe(original);
+    expect(error.operation).toEqual("withdraw");
+  });
+
+  test("should wrap unknown errors", () => {
+    const error = toEERCError(new Error("boom"), "deposit");
+
+    expect(error).toBeInstanceOf(EERCError);
+    expect(error.code).toEqual("UNKNOWN");
+    expect(error.message).toEqual("boom");
+  });
+});
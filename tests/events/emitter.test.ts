@@ -0,0 +1,40 @@
+import { EventEmitter } from "../../src/helpers";
+
+type Events = {
+  progress: { stage: string };
+};
+
+class Emitter extends EventEmitter<Events> {
+  report(stage: string) {
+    this.emit("progress", { stage });
+  }
+}
+
+describe("EventEmitter", () => {
+  it("calls the listeners until they are removed", () => {
+    const emitter = new Emitter();
+    const listener = jest.fn();
+
+    const unsubscribe = emitter.on("progress", listener);
+    emitter.report("proving");
+    unsubscribe();
+    emitter.report("signing");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ stage: "proving" });
+  });
+
+  it("keeps calling the listeners when one of them throws", () => {
+    const emitter = new Emitter();
+    const listener = jest.fn();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    emitter.on("progress", () => {
+      throw new Error("listener failed");
+    });
+    emitter.on("progress", listener);
+
+    expect(() => emitter.report("broadcast")).not.toThrow();
+    expect(listener).toHaveBeenCalledWith({ stage: "broadcast" });
+  });
+});
@@ -0,0 +1,43 @@
+import { privateKeyToAccount } from "viem/accounts";
+import { getPrivateKeyFromSignature } from "../../src/crypto/key";
+import { MESSAGES, TYPED_MESSAGES } from "../../src/utils";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+const registrar = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+const deriveTyped = async (
+  chainId: number,
+  registrarAddress: `0x${string}` = registrar,
+) =>
+  getPrivateKeyFromSignature(
+    await account.signTypedData(
+      TYPED_MESSAGES.REGISTER(account.address, chainId, registrarAddress),
+    ),
+  );
+
+describe("Typed Data Key Derivation", () => {
+  test("derives the same key from the same typed message", async () => {
+    expect(await deriveTyped(43114)).toBe(await deriveTyped(43114));
+  });
+
+  test("binds the typed message to the chain and the registrar", async () => {
+    const key = await deriveTyped(43114);
+
+    expect(await deriveTyped(43113)).not.toBe(key);
+    expect(
+      await deriveTyped(43114, "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512"),
+    ).not.toBe(key);
+  });
+
+  test("derives a different key than personal sign", async () => {
+    const personal = getPrivateKeyFromSignature(
+      await account.signMessage({
+        message: MESSAGES.REGISTER(account.address),
+      }),
+    );
+
+    expect(await deriveTyped(43114)).not.toBe(personal);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  type Keystore,
+  decryptKeystore,
+  encryptKeystore,
+  parseKeystore,
+} from "../../src/helpers";
+
+const decryptionKey =
+  "1c9e5dbc5d1b3b3c8ef6e2c6b0dbe7a0b7c0f1d6c3a1b4e5d6f7a8b9c0d1e2f3";
+const publicKey = [123n, 456n];
+
+describe("keystore", () => {
+  it("encrypts and decrypts the key with scrypt", async () => {
+    const keystore = await encryptKeystore(
+      decryptionKey,
+      publicKey,
+      "correct horse",
+      { n: 2 ** 10 },
+      "0x0000000000000000000000000000000000000001",
+    );
+
+    expect(keystore.version).toBe(1);
+    expect(keystore.publicKey).toEqual(["123", "456"]);
+    expect(keystore.crypto.kdf).toMatchObject({ name: "scrypt", n: 1024 });
+    expect(keystore.crypto.ciphertext).not.toContain(decryptionKey);
+
+    expect(
+      await decryptKeystore(JSON.stringify(keystore), "correct horse"),
+    ).toBe(decryptionKey);
+  });
+
+  it("encrypts and decrypts the key with pbkdf2", async () => {
+    const keystore = await encryptKeystore(decryptionKey, publicKey, "secret", {
+      kdf: "pbkdf2",
+      iterations: 1000,
+    });
+
+    expect(keystore.crypto.kdf).toMatchObject({
+      name: "pbkdf2",
+      iterations: 1000,
+    });
+    expect(await decryptKeystore(keystore, "secret")).toBe(decryptionKey);
+  });
+
+  it("rejects a wrong password", async () => {
+    const keystore = await encryptKeystore(decryptionKey, publicKey, "secret", {
+      kdf: "pbkdf2",
+      iterations: 1000,
+    });
+
+    await expect(decryptKeystore(keystore, "wrong")).rejects.toMatchObject({
+      code: "INVALID_PASSWORD",
+    });
+  });
+
+  it("rejects unsupported keystores", () => {
+    expect(() => parseKeystore("not json")).toThrow("Invalid keystore json!");
+    expect(() => parseKeystore({ version: 2 } as unknown as Keystore)).toThrow(
+      "Unsupported keystore version 2",
+    );
+  });
+});
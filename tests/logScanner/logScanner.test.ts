@@ -0,0 +1,95 @@
+import { type AbiEvent, LimitExceededRpcError, type PublicClient } from "viem";
+import { LogScanner } from "../../src/helpers/logScanner";
+
+const event = {
+  type: "event",
+  name: "AuditorChanged",
+  inputs: [],
+} as AbiEvent;
+
+const mockClient = (
+  getLogs: (args: { fromBlock: bigint; toBlock: bigint }) => unknown[],
+) =>
+  ({
+    getBlockNumber: jest.fn().mockResolvedValue(99n),
+    getLogs: jest.fn(async (args) => getLogs(args)),
+  }) as unknown as PublicClient & {
+    getLogs: jest.Mock;
+  };
+
+describe("LogScanner", () => {
+  const address = "0x0000000000000000000000000000000000000001";
+
+  test("should scan the whole range in chunks", async () => {
+    const client = mockClient(({ fromBlock }) => [
+      { blockNumber: fromBlock, logIndex: 0 },
+    ]);
+    const scanner = new LogScanner(client, address, {
+      chunkSize: 10n,
+      concurrency: 3,
+    });
+
+    const pages = [];
+    for await (const page of scanner.scan([{ event }])) pages.push(page);
+
+    expect(pages).toHaveLength(10);
+    expect(pages[0]).toMatchObject({ fromBlock: 0n, toBlock: 9n });
+    expect(pages[9]).toMatchObject({ fromBlock: 90n, toBlock: 99n });
+    expect(pages.map((p) => p.logs[0]?.blockNumber)).toEqual(
+      pages.map((p) => p.fromBlock),
+    );
+  });
+
+  test("should shrink the chunk size when the rpc rejects the range", async () => {
+    const client = mockClient(({ fromBlock, toBlock }) => {
+      if (toBlock - fromBlock + 1n > 25n) {
+        throw new LimitExceededRpcError(new Error("block range too large"));
+      }
+      return [{ blockNumber: toBlock, logIndex: 0 }];
+    });
+    const scanner = new LogScanner(client, address, {
+      fromBlock: 0n,
+      toBlock: 99n,
+      chunkSize: 100n,
+      minChunkSize: 1n,
+      concurrency: 1,
+    });
+
+    const logs = await scanner.getLogs([{ event }]);
+
+    expect(logs.map((l) => l.blockNumber)).toEqual([24n, 49n, 74n, 99n]);
+  });
+
+  test("should not retry errors below the minimum chunk size", async () => {
+    const client = mockClient(() => {
+      throw new LimitExceededRpcError(new Error("block range too large"));
+    });
+    const scanner = new LogScanner(client, address, {
+      chunkSize: 4n,
+      minChunkSize: 4n,
+    });
+
+    await expect(scanner.getLogs([{ event }])).rejects.toBeInstanceOf(
+      LimitExceededRpcError,
+    );
+  });
+
+  test("should merge multiple filters in block order", async () => {
+    const client = mockClient(() => []);
+    client.getLogs
+      .mockResolvedValueOnce([{ blockNumber: 5n, logIndex: 1 }])
+      .mockResolvedValueOnce([
+        { blockNumber: 2n, logIndex: 0 },
+        { blockNumber: 5n, logIndex: 0 },
+      ]);
+    const scanner = new LogScanner(client, address, { toBlock: 10n });
+
+    const logs = await scanner.getLogs([{ event }, { event }]);
+
+    expect(logs.map((l) => [l.blockNumber, l.logIndex])).toEqual([
+      [2n, 0],
+      [5n, 0],
+      [5n, 1],
+    ]);
+  });
+});
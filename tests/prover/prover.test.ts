@@ -0,0 +1,118 @@
+import { EventEmitter } from "node:events";
+import {
+  RemoteProver,
+  type WorkerLike,
+  WorkerProver,
+  exposeProver,
+} from "../../src/prover";
+import type { ProveRequest, ProveResult, Prover } from "../../src/prover";
+
+const request: ProveRequest = {
+  operation: "TRANSFER",
+  input: { ValueToTransfer: 10n, SenderPublicKey: [1n, 2n] },
+  wasm: "transfer.wasm",
+  zkey: "transfer.zkey",
+};
+
+const result: ProveResult = {
+  proof: {
+    pi_a: ["1", "2"],
+    pi_b: [["3", "4"]],
+    pi_c: ["5", "6"],
+    protocol: "groth16",
+    curve: "bn128",
+  },
+  publicSignals: ["7"],
+};
+
+// connects the two ends of a node-like message channel
+const createChannel = () => {
+  const main = new EventEmitter();
+  const worker = new EventEmitter();
+  const mainPort: WorkerLike = {
+    postMessage: (m) => setImmediate(() => worker.emit("message", m)),
+    on: (e, l) => main.on(e, l),
+    terminate: jest.fn(),
+  };
+  const workerPort: WorkerLike = {
+    postMessage: (m) => setImmediate(() => main.emit("message", m)),
+    on: (e, l) => worker.on(e, l),
+  };
+  return { main, mainPort, workerPort };
+};
+
+describe("Prover", () => {
+  test("WorkerProver should prove through the worker", async () => {
+    const { mainPort, workerPort } = createChannel();
+    const prover: Prover = { prove: jest.fn().mockResolvedValue(result) };
+    exposeProver(workerPort, prover);
+
+    const createWorker = jest.fn(() => mainPort);
+    const workerProver = new WorkerProver(createWorker);
+
+    const [first, second] = await Promise.all([
+      workerProver.prove(request),
+      workerProver.prove(request),
+    ]);
+
+    expect(first).toEqual(result);
+    expect(second).toEqual(result);
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(prover.prove).toHaveBeenCalledWith(request);
+  });
+
+  test("WorkerProver should reject with the worker error", async () => {
+    const { mainPort, workerPort } = createChannel();
+    exposeProver(workerPort, {
+      prove: jest.fn().mockRejectedValue(new Error("witness failed")),
+    });
+
+    const workerProver = new WorkerProver(() => mainPort);
+
+    await expect(workerProver.prove(request)).rejects.toThrow("witness failed");
+  });
+
+  test("WorkerProver should reject pending proofs on terminate", async () => {
+    const { mainPort } = createChannel();
+    const workerProver = new WorkerProver(() => mainPort);
+
+    const pending = workerProver.prove(request);
+    workerProver.terminate();
+
+    await expect(pending).rejects.toThrow("Prover worker terminated");
+    expect(mainPort.terminate).toHaveBeenCalled();
+  });
+
+  test("RemoteProver should post the inputs with bigints as strings", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => result,
+    });
+    const prover = new RemoteProver({
+      url: "https://prover.example/prove",
+      headers: { Authorization: "Bearer token" },
+      fetch: fetchMock,
+    });
+
+    await expect(prover.prove(request)).resolves.toEqual(result);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toEqual("https://prover.example/prove");
+    expect(init.headers.Authorization).toEqual("Bearer token");
+    expect(JSON.parse(init.body)).toEqual({
+      operation: "TRANSFER",
+      input: { ValueToTransfer: "10", SenderPublicKey: ["1", "2"] },
+    });
+  });
+
+  test("RemoteProver should fail on error responses", async () => {
+    const prover = new RemoteProver({
+      url: "https://prover.example/prove",
+      fetch: jest.fn().mockResolvedValue({ ok: false, status: 500 }),
+    });
+
+    await expect(prover.prove(request)).rejects.toThrow(
+      "Remote prover responded with 500",
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import * as snarkjs from "snarkjs";
+import { EERCProofVerificationError } from "../../src/helpers";
+import {
+  type ProveResult,
+  type VerificationKey,
+  readPublicSignal,
+  verifyProof,
+} from "../../src/prover";
+
+jest.mock("snarkjs", () => ({ groth16: { verify: jest.fn() } }));
+
+const verify = snarkjs.groth16.verify as jest.Mock;
+
+const input = {
+  SenderPrivateKey: 9n,
+  SenderPublicKey: [1n, 2n],
+  SenderAddress: 3n,
+  ChainID: 43114n,
+  RegistrationHash: 5n,
+};
+
+const verificationKey: VerificationKey = {
+  protocol: "groth16",
+  curve: "bn128",
+  nPublic: 5,
+};
+
+const result = (publicSignals: string[]): ProveResult => ({
+  proof: {
+    pi_a: ["1", "2"],
+    pi_b: [["3", "4"]],
+    pi_c: ["5", "6"],
+    protocol: "groth16",
+    curve: "bn128",
+  },
+  publicSignals,
+});
+
+describe("verifyProof", () => {
+  beforeEach(() => {
+    verify.mockReset().mockResolvedValue(true);
+  });
+
+  it("accepts a valid proof", async () => {
+    await expect(
+      verifyProof(
+        "REGISTER",
+        input,
+        result(["1", "2", "3", "43114", "5"]),
+        verificationKey,
+      ),
+    ).resolves.toBeUndefined();
+    expect(verify).toHaveBeenCalledWith(
+      verificationKey,
+      ["1", "2", "3", "43114", "5"],
+      expect.anything(),
+    );
+  });
+
+  it("rejects a proof with a different number of public signals", async () => {
+    await expect(
+      verifyProof("REGISTER", input, result(["1", "2", "3"]), verificationKey),
+    ).rejects.toMatchObject({
+      code: "PROOF_VERIFICATION_FAILED",
+      circuit: "REGISTER",
+    });
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("names the mismatched public input", async () => {
+    const error = await verifyProof(
+      "REGISTER",
+      input,
+      result(["1", "2", "3", "1", "5"]),
+      verificationKey,
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(EERCProofVerificationError);
+    expect(error).toMatchObject({
+      circuit: "REGISTER",
+      signal: "ChainID",
+      index: 3,
+    });
+  });
+
+  it("rejects a proof that does not verify", async () => {
+    verify.mockResolvedValue(false);
+
+    await expect(
+      verifyProof(
+        "REGISTER",
+        input,
+        result(["1", "2", "3", "43114", "5"]),
+        verificationKey,
+      ),
+    ).rejects.toBeInstanceOf(EERCProofVerificationError);
+  });
+});
+
+describe("readPublicSignal", () => {
+  const signals = Array.from({ length: 24 }, (_, i) => `${i}`);
+
+  it("reads the public input at its offset", () => {
+    expect(readPublicSignal("MINT", "ReceiverPCT", signals)).toEqual([
+      6n,
+      7n,
+      8n,
+      9n,
+    ]);
+    expect(readPublicSignal("MINT", "ReceiverPCTNonce", signals)).toEqual([
+      12n,
+    ]);
+  });
+
+  it("throws for an unknown public input", () => {
+    expect(() => readPublicSignal("MINT", "SenderVTTC1", signals)).toThrow(
+      EERCProofVerificationError,
+    );
+  });
+});
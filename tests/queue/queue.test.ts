@@ -0,0 +1,110 @@
+import { OperationQueue } from "../../src/helpers";
+
+const account = "0x1111111111111111111111111111111111111111";
+const other = "0x2222222222222222222222222222222222222222";
+const token = "0x3333333333333333333333333333333333333333";
+
+const deferred = () => {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("OperationQueue", () => {
+  it("runs the operations of an account and token one after another", async () => {
+    const queue = new OperationQueue();
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = queue.run({ operation: "transfer", account }, async (ctx) => {
+      order.push(`a:${ctx.waited}`);
+      await first.promise;
+      order.push("a:done");
+    });
+    const b = queue.run({ operation: "burn", account }, async (ctx) => {
+      order.push(`b:${ctx.waited}`);
+    });
+    await flush();
+
+    expect(order).toEqual(["a:false"]);
+    expect(queue.snapshot.map(({ status }) => status)).toEqual([
+      "running",
+      "queued",
+    ]);
+
+    first.resolve();
+    await Promise.all([a, b]);
+
+    expect(order).toEqual(["a:false", "a:done", "b:true"]);
+  });
+
+  it("runs the operations of different accounts and tokens in parallel", async () => {
+    const queue = new OperationQueue();
+    const blocked = deferred();
+    const started: string[] = [];
+
+    queue.run({ operation: "transfer", account }, async () => {
+      started.push("account");
+      await blocked.promise;
+    });
+    queue.run({ operation: "transfer", account: other }, async () => {
+      started.push("other");
+    });
+    queue.run(
+      { operation: "withdraw", account, tokenAddress: token },
+      async () => {
+        started.push("token");
+      },
+    );
+    await flush();
+
+    expect(started).toEqual(["account", "other", "token"]);
+    blocked.resolve();
+  });
+
+  it("keeps the next operation waiting while the previous one is held", async () => {
+    const queue = new OperationQueue();
+    const mined = deferred();
+    const next = jest.fn();
+
+    await queue.run({ operation: "transfer", account }, async (ctx) => {
+      ctx.hold(mined.promise);
+    });
+    const pending = queue.run({ operation: "transfer", account }, next);
+    await flush();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(queue.snapshot[0].status).toBe("confirming");
+
+    mined.resolve();
+    await pending;
+
+    expect(next).toHaveBeenCalled();
+    await flush();
+    expect(queue.snapshot).toEqual([]);
+  });
+
+  it("releases the queue when an operation fails", async () => {
+    const queue = new OperationQueue();
+    const listener = jest.fn();
+    queue.on("change", listener);
+
+    await expect(
+      queue.run({ operation: "transfer", account }, async (ctx) => {
+        ctx.retry();
+        throw new Error("InvalidProof");
+      }),
+    ).rejects.toThrow("InvalidProof");
+    await expect(
+      queue.run({ operation: "transfer", account }, async () => 1),
+    ).resolves.toBe(1);
+
+    expect(listener).toHaveBeenCalledWith([
+      expect.objectContaining({ status: "running", retries: 1 }),
+    ]);
+  });
+});